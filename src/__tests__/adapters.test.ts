@@ -0,0 +1,102 @@
+import fs from "fs";
+import path from "path";
+import {
+  getAdapterNames,
+  hasAdapter,
+  registerAdapter,
+  resolveAdapter,
+} from "../adapters";
+import { Source } from "../config";
+import { validateSource } from "../config/sources";
+import { WebScraper } from "../utils/scraper";
+
+const atomixSource: Source = JSON.parse(
+  fs.readFileSync(path.join(__dirname, "../../sources/atomix.json"), "utf8")
+);
+const atomixArticle = fs.readFileSync(
+  path.join(__dirname, "fixtures/atomix-article.html"),
+  "utf8"
+);
+const articleUrl = "https://atomix.vg/nintendo-anuncia-nuevo-zelda/";
+
+describe("Source adapters", () => {
+  test("should resolve registered adapters over the default", () => {
+    expect(hasAdapter("atomix")).toBe(true);
+    expect(getAdapterNames()).toEqual(
+      expect.arrayContaining(["default", "atomix"])
+    );
+
+    const atomix = resolveAdapter("atomix");
+    expect(atomix.name).toBe("atomix");
+    expect(atomix.normalizeDate("05/08/2024 3:45 pm.", atomixSource)).toBe(
+      "05/08/2024 3:45 pm"
+    );
+    // Hooks the adapter leaves out come from the default adapter
+    expect(atomix.postProcessContent("<p>Body</p>", atomixSource)).toBe(
+      "<p>Body</p>"
+    );
+    expect(atomix.filterLink(articleUrl, atomixSource)).toBe(true);
+  });
+
+  test("should fall back to the default adapter", () => {
+    expect(resolveAdapter().name).toBe("default");
+    expect(resolveAdapter("missing").name).toBe("default");
+  });
+
+  test("should resolve adapters registered later", () => {
+    registerAdapter({
+      name: "no-videos",
+      filterLink: (link) => !link.includes("/video/"),
+    });
+
+    const adapter = resolveAdapter("no-videos");
+    expect(
+      adapter.filterLink("https://example.com/video/1", atomixSource)
+    ).toBe(false);
+    expect(adapter.normalizeDate("5 Aug", atomixSource)).toBe("5 Aug");
+  });
+
+  test("should reject sources naming an unknown adapter", () => {
+    expect(validateSource({ ...atomixSource, adapter: "atomics" })).toEqual([
+      expect.stringContaining('adapter "atomics" is not registered'),
+    ]);
+    expect(validateSource({ ...atomixSource, adapter: "" })).toEqual([
+      "adapter must be a non-empty string",
+    ]);
+    expect(validateSource(atomixSource)).toEqual([]);
+  });
+
+  describe("atomix", () => {
+    const scraper = new WebScraper();
+
+    test("should use the WordPress permalink as the entryId", () => {
+      const article = scraper.extractArticle(
+        atomixArticle,
+        articleUrl,
+        atomixSource
+      );
+      expect(article.entryId).toBe("https://atomix.vg/?p=12345");
+      expect(article.title).toBe("Nintendo anuncia un nuevo Zelda");
+      expect(article.author).toBe("Ana López");
+    });
+
+    test("should fall back to the URL without a post ID", () => {
+      const html = atomixArticle.replace("post-12345 ", "");
+      const article = scraper.extractArticle(
+        html,
+        "https://atomix.vg/nintendo-anuncia-nuevo-zelda",
+        atomixSource
+      );
+      expect(article.entryId).toBe("nintendoanuncianuevozelda");
+    });
+
+    test("should parse the article date", () => {
+      const article = scraper.extractArticle(
+        atomixArticle,
+        articleUrl,
+        atomixSource
+      );
+      expect(article.date).toEqual(new Date(2024, 7, 5, 15, 45));
+    });
+  });
+});
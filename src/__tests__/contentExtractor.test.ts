@@ -0,0 +1,42 @@
+import { extractMainContent } from "../utils/contentExtractor";
+
+const paragraph = (n: number) =>
+  `<p>Paragraph ${n} of the article, long enough to count as real text, with a comma or two, and <a href="/x">one link</a>.</p>`;
+
+describe("Main content extraction", () => {
+  test("should find the article body and drop page chrome", () => {
+    const html = `<html><body>
+      <nav class="menu"><a href="/">Home</a><a href="/news">News</a></nav>
+      <div class="sidebar"><p>Popular posts, trending now, read more about everything here.</p></div>
+      <div id="main">
+        <div class="entry-content">
+          ${[1, 2, 3, 4, 5, 6, 7, 8].map(paragraph).join("\n")}
+          <ul class="share-links"><li><a href="#">Facebook</a></li><li><a href="#">Twitter</a></li></ul>
+        </div>
+        <div id="comments"><p>Great article, thanks for writing it, loved every bit of it.</p></div>
+      </div>
+      <footer><p>Copyright, all rights reserved, example publishing group.</p></footer>
+    </body></html>`;
+
+    const result = extractMainContent(html);
+
+    expect(result).not.toBeNull();
+    expect(result!.html).toContain("Paragraph 1 of the article");
+    expect(result!.html).toContain("Paragraph 8 of the article");
+    expect(result!.html).not.toMatch(/Popular posts|Great article|Copyright/);
+    expect(result!.html).not.toContain("Facebook");
+    expect(result!.confidence).toBeGreaterThan(0.5);
+    expect(result!.confidence).toBeLessThanOrEqual(1);
+  });
+
+  test("should report low confidence for short pages", () => {
+    const result = extractMainContent(
+      "<div><p>Just one short paragraph of text on this page.</p></div>"
+    );
+    expect(result?.confidence).toBeLessThan(0.1);
+  });
+
+  test("should return null without paragraphs", () => {
+    expect(extractMainContent("<div><a href='/'>Home</a></div>")).toBeNull();
+  });
+});
@@ -0,0 +1,45 @@
+import { computeContentHash, normalizeForHash } from "../utils/contentHash";
+
+describe("Content hash", () => {
+  const article = {
+    title: "Zelda review",
+    summary: "A new adventure",
+    content: "<p>First paragraph</p><p>Second paragraph</p>",
+  };
+
+  test("should normalize whitespace", () => {
+    expect(normalizeForHash("  Zelda\n\treview  ")).toBe("Zelda review");
+    expect(normalizeForHash("<p>One</p>\n  <p>Two  words</p>")).toBe(
+      "<p>One</p><p>Two words</p>"
+    );
+  });
+
+  test("should ignore reformatted markup", () => {
+    expect(
+      computeContentHash({
+        ...article,
+        title: " Zelda  review ",
+        content: "<p>First paragraph</p>\n<p>Second\nparagraph</p>",
+      })
+    ).toBe(computeContentHash(article));
+  });
+
+  test("should change when a mirrored field changes", () => {
+    const hash = computeContentHash(article);
+    expect(
+      computeContentHash({ ...article, title: "Zelda review (updated)" })
+    ).not.toBe(hash);
+    expect(computeContentHash({ ...article, summary: undefined })).not.toBe(
+      hash
+    );
+    expect(
+      computeContentHash({ ...article, content: "<p>First paragraph</p>" })
+    ).not.toBe(hash);
+  });
+
+  test("should keep fields apart", () => {
+    expect(
+      computeContentHash({ title: "a", summary: "b", content: "" })
+    ).not.toBe(computeContentHash({ title: "ab", summary: "", content: "" }));
+  });
+});
@@ -0,0 +1,84 @@
+import { CrawlPool } from "../utils/crawlPool";
+
+describe("Crawl pool", () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date("2024-08-05T12:00:00Z") });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  // Runs requests that take `duration` ms, recording when each one started
+  const runAll = (
+    pool: CrawlPool,
+    urls: string[],
+    limits: { concurrency: number; minDelay: number },
+    duration = 0
+  ) => {
+    const start = Date.now();
+    const starts: Record<string, number[]> = {};
+    const done = Promise.all(
+      urls.map((url) =>
+        pool.run(url, limits, async () => {
+          const host = new URL(url).hostname;
+          (starts[host] ??= []).push(Date.now() - start);
+          await new Promise((resolve) => setTimeout(resolve, duration));
+        })
+      )
+    );
+    return { starts, done };
+  };
+
+  test("should space out requests to the same host", async () => {
+    const { starts, done } = runAll(
+      new CrawlPool(4),
+      ["https://a.com/1", "https://a.com/2", "https://a.com/3"],
+      { concurrency: 1, minDelay: 1000 }
+    );
+    await jest.advanceTimersByTimeAsync(2100);
+    await done;
+
+    expect(starts["a.com"]).toEqual([0, 1000, 2000]);
+  });
+
+  test("should crawl different hosts in parallel", async () => {
+    const { starts, done } = runAll(
+      new CrawlPool(4),
+      ["https://a.com/1", "https://b.com/1", "https://a.com/2"],
+      { concurrency: 1, minDelay: 500 },
+      100
+    );
+    await jest.advanceTimersByTimeAsync(600);
+    await done;
+
+    expect(starts["a.com"]).toEqual([0, 500]);
+    expect(starts["b.com"]).toEqual([0]);
+  });
+
+  test("should cap requests in flight across hosts", async () => {
+    const { starts, done } = runAll(
+      new CrawlPool(2),
+      ["https://a.com/1", "https://b.com/1", "https://c.com/1"],
+      { concurrency: 1, minDelay: 0 },
+      1000
+    );
+    await jest.advanceTimersByTimeAsync(2000);
+    await done;
+
+    expect(starts).toEqual({ "a.com": [0], "b.com": [0], "c.com": [1000] });
+  });
+
+  test("should allow several requests per host when configured", async () => {
+    const { starts, done } = runAll(
+      new CrawlPool(4),
+      ["https://a.com/1", "https://a.com/2", "https://a.com/3"],
+      { concurrency: 2, minDelay: 0 },
+      1000
+    );
+    await jest.advanceTimersByTimeAsync(2000);
+    await done;
+
+    expect(starts["a.com"]).toEqual([0, 0, 1000]);
+  });
+});
@@ -0,0 +1,266 @@
+import { CrawlStateModel, EntryModel } from "../models";
+import { CrawlerJob, SaveArticleOptions } from "../jobs/crawler";
+import { computeContentHash } from "../utils/contentHash";
+import { CrawlPool } from "../utils/crawlPool";
+import type { ScrapedArticle } from "../utils/scraper";
+import { config, Source } from "../config";
+
+// The crawler connects through the database module, not needed here
+jest.mock("../database", () => ({ database: {} }));
+
+const source: Source = {
+  name: "Example",
+  url: "https://example.com",
+  listingPath: "/news",
+  nextPageLoadsInSamePage: false,
+  sitemapUrl: "https://example.com/sitemap.xml",
+  selectors: {
+    articleLinks: "a.article",
+    title: "h1",
+    author: ".author",
+    content: ".content",
+    date: "",
+    entryId: "article",
+  },
+};
+
+const article = (link: string): ScrapedArticle => ({
+  entryId: link,
+  title: "Title",
+  author: "Author",
+  summary: "",
+  content: "<p>Body</p>",
+  link,
+  date: new Date("2024-08-01T00:00:00Z"),
+  tags: [],
+});
+
+// A crawler reading the given sitemap entries, scraping links with `scrape`
+const crawlerWith = (
+  entries: { loc: string; lastmod: Date | null }[],
+  scrape: (link: string) => Promise<ScrapedArticle | null>
+) => {
+  const job = new CrawlerJob();
+  Object.assign(job, {
+    scraper: {
+      getCrawlDelay: async () => null,
+      isAllowedByRobots: async () => true,
+      scrapeArticle: jest.fn(scrape),
+    },
+    sitemapReader: { getEntries: async () => entries },
+    healthMonitor: { recordRun: async () => undefined },
+  });
+  return job;
+};
+
+const crawl = (job: CrawlerJob) =>
+  job["crawlSource"](source, new CrawlPool(4), {
+    processed: 0,
+    saved: 0,
+    updated: 0,
+    disallowed: 0,
+  });
+
+describe("Crawler", () => {
+  let updateState: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(CrawlStateModel, "findOne").mockResolvedValue(null);
+    jest.spyOn(EntryModel, "distinct").mockResolvedValue([]);
+    updateState = jest
+      .spyOn(CrawlStateModel, "updateOne")
+      .mockResolvedValue({} as never);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  const crawledUntil = (): Date =>
+    updateState.mock.calls[0][1].lastSuccessfulCrawlAt;
+
+  test("should hold the cutoff back at the oldest failed entry", async () => {
+    const job = crawlerWith(
+      [
+        { loc: "https://example.com/a", lastmod: new Date("2024-08-01") },
+        { loc: "https://example.com/b", lastmod: new Date("2024-08-02") },
+        { loc: "https://example.com/c", lastmod: new Date("2024-08-03") },
+        { loc: "https://example.com/d", lastmod: new Date("2024-08-04") },
+      ],
+      async (link) => {
+        if (link.endsWith("/c")) throw new Error("socket hang up");
+        return link.endsWith("/b") ? null : article(link);
+      }
+    );
+    jest.spyOn(job, "saveArticle").mockResolvedValue("saved");
+
+    await crawl(job);
+
+    expect(crawledUntil()).toEqual(new Date("2024-08-02"));
+  });
+
+  test("should advance the cutoff when every entry was crawled", async () => {
+    const job = crawlerWith(
+      [{ loc: "https://example.com/a", lastmod: new Date("2024-08-01") }],
+      async (link) => article(link)
+    );
+    jest.spyOn(job, "saveArticle").mockResolvedValue("saved");
+    const startedAt = new Date();
+
+    await crawl(job);
+
+    expect(crawledUntil().getTime()).toBeGreaterThanOrEqual(
+      startedAt.getTime()
+    );
+  });
+
+  test("should leave stored articles whose page wasn't modified", async () => {
+    const job = crawlerWith(
+      [{ loc: "https://example.com/a", lastmod: new Date("2024-08-01") }],
+      async (link) => ({ ...article(link), notModified: true })
+    );
+    jest.spyOn(EntryModel, "exists").mockResolvedValue({ _id: "a" } as never);
+    const saveArticle = jest.spyOn(job, "saveArticle");
+
+    await crawl(job);
+
+    expect(saveArticle).not.toHaveBeenCalled();
+  });
+
+  test("should re-check settled articles the sitemap marks as modified", async () => {
+    jest.spyOn(CrawlStateModel, "findOne").mockResolvedValue({
+      lastSuccessfulCrawlAt: new Date("2024-08-02"),
+    });
+    // Both entries are stored and past the revisit window
+    jest
+      .spyOn(EntryModel, "distinct")
+      .mockResolvedValue(["https://example.com/a", "https://example.com/b"]);
+    const job = crawlerWith(
+      [
+        { loc: "https://example.com/a", lastmod: new Date("2024-08-02") },
+        { loc: "https://example.com/b", lastmod: new Date("2024-08-05") },
+      ],
+      async (link) => article(link)
+    );
+    jest.spyOn(job, "saveArticle").mockResolvedValue("updated");
+
+    await crawl(job);
+
+    expect(job["scraper"].scrapeArticle).toHaveBeenCalledTimes(1);
+    expect(job["scraper"].scrapeArticle).toHaveBeenCalledWith(
+      "https://example.com/b",
+      source
+    );
+  });
+
+  describe("article updates", () => {
+    const sanitization = { elements: {}, attributes: {}, selectors: {} };
+    const storedEntry = (revisions: number) =>
+      new EntryModel({
+        entryId: "https://example.com/a",
+        title: "Title",
+        author: "Author",
+        summary: "",
+        content: "<p>Body</p>",
+        link: "https://example.com/a",
+        entryDate: new Date("2024-08-01T00:00:00Z"),
+        notionPageId: "page-1",
+        revisions: Array.from({ length: revisions }, (_, i) => ({
+          content: `<p>Version ${i}</p>`,
+          contentHash: `hash-${i}`,
+          capturedAt: new Date("2024-08-01T00:00:00Z"),
+        })),
+      });
+
+    const update = async (
+      entry: ReturnType<typeof storedEntry>,
+      content: string,
+      changes: Partial<ScrapedArticle> = {},
+      options: SaveArticleOptions = {}
+    ) => {
+      jest.spyOn(entry, "save").mockResolvedValue(entry);
+      const edited = { ...article(entry.link), content, ...changes };
+      return new CrawlerJob()["applyArticleUpdate"](
+        entry,
+        edited,
+        computeContentHash(edited),
+        sanitization,
+        options
+      );
+    };
+
+    test("should keep the previous version of an edited article", async () => {
+      const entry = storedEntry(0);
+
+      await expect(update(entry, "<p>Edited body</p>")).resolves.toBe(true);
+      expect(entry.content).toBe("<p>Edited body</p>");
+      expect(entry.needsNotionUpdate).toBe(true);
+      expect(entry.revisions).toHaveLength(1);
+      expect(entry.revisions?.[0]).toMatchObject({
+        title: "Title",
+        content: "<p>Body</p>",
+        contentHash: computeContentHash({
+          title: "Title",
+          summary: "",
+          content: "<p>Body</p>",
+        }),
+      });
+    });
+
+    test("should drop the oldest revisions past the limit", async () => {
+      jest.replaceProperty(config.crawler, "maxRevisions", 3);
+      const entry = storedEntry(3);
+
+      await update(entry, "<p>Edited body</p>");
+
+      expect(entry.revisions?.map((revision) => revision.content)).toEqual([
+        "<p>Version 1</p>",
+        "<p>Version 2</p>",
+        "<p>Body</p>",
+      ]);
+    });
+
+    test("should leave unchanged articles as they are", async () => {
+      const entry = storedEntry(0);
+
+      await expect(update(entry, "<p>Body</p>\n")).resolves.toBe(false);
+      expect(entry.revisions).toHaveLength(0);
+      expect(entry.save).not.toHaveBeenCalled();
+    });
+
+    test("should apply a changed author, tags and date when asked", async () => {
+      const changes = {
+        author: "Fixed Author",
+        tags: ["News"],
+        date: new Date("2024-07-30T10:00:00Z"),
+      };
+
+      const crawled = storedEntry(0);
+      await expect(update(crawled, "<p>Body</p>", changes)).resolves.toBe(
+        false
+      );
+      expect(crawled.author).toBe("Author");
+
+      const reextracted = storedEntry(0);
+      await expect(
+        update(reextracted, "<p>Body</p>", changes, { updateMetadata: true })
+      ).resolves.toBe(true);
+      expect(reextracted.author).toBe("Fixed Author");
+      expect([...(reextracted.tags ?? [])]).toEqual(["News"]);
+      expect(reextracted.entryDate).toEqual(changes.date);
+      expect(reextracted.revisions).toHaveLength(0);
+      expect(reextracted.needsNotionUpdate).toBe(true);
+    });
+
+    test("should keep the stored date when the page has none", async () => {
+      const entry = storedEntry(0);
+
+      await update(
+        entry,
+        "<p>Body</p>",
+        { date: new Date(), dateMissing: true },
+        { updateMetadata: true }
+      );
+
+      expect(entry.entryDate).toEqual(new Date("2024-08-01T00:00:00Z"));
+    });
+  });
+});
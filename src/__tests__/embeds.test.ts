@@ -0,0 +1,68 @@
+import { resolveEmbed } from "../utils/embeds";
+
+describe("Embed resolution", () => {
+  test.each([
+    [
+      "https://www.youtube.com/embed/dQw4w9WgXcQ?rel=0",
+      "https://www.youtube.com/watch?v=dQw4w9WgXcQ",
+    ],
+    [
+      "//www.youtube-nocookie.com/embed/dQw4w9WgXcQ",
+      "https://www.youtube.com/watch?v=dQw4w9WgXcQ",
+    ],
+    [
+      "https://youtu.be/dQw4w9WgXcQ",
+      "https://www.youtube.com/watch?v=dQw4w9WgXcQ",
+    ],
+    [
+      "https://m.youtube.com/watch?v=dQw4w9WgXcQ&t=10",
+      "https://www.youtube.com/watch?v=dQw4w9WgXcQ",
+    ],
+  ])("should resolve YouTube URL %s", (url, canonical) => {
+    expect(resolveEmbed(url)).toEqual({
+      provider: "youtube",
+      url: canonical,
+      block: "video",
+    });
+  });
+
+  test("should resolve other providers", () => {
+    expect(resolveEmbed("https://player.vimeo.com/video/76979871")).toEqual({
+      provider: "vimeo",
+      url: "https://vimeo.com/76979871",
+      block: "video",
+    });
+    expect(
+      resolveEmbed("https://player.twitch.tv/?video=v123456&parent=atomix.vg")
+    ).toMatchObject({ url: "https://www.twitch.tv/videos/123456" });
+    expect(
+      resolveEmbed("https://clips.twitch.tv/embed?clip=FunnyClip&parent=a.vg")
+    ).toMatchObject({ url: "https://clips.twitch.tv/FunnyClip" });
+    expect(
+      resolveEmbed("https://x.com/Nintendo/status/1234567890?ref_src=twsrc")
+    ).toEqual({
+      provider: "twitter",
+      url: "https://twitter.com/Nintendo/status/1234567890",
+      block: "embed",
+    });
+    expect(
+      resolveEmbed("https://www.instagram.com/p/C1a2B3c4D5e/embed/captioned")
+    ).toMatchObject({ url: "https://www.instagram.com/p/C1a2B3c4D5e/" });
+    expect(
+      resolveEmbed(
+        "https://embed.reddit.com/r/gaming/comments/abc123/title/?embed=true"
+      )
+    ).toEqual({
+      provider: "reddit",
+      url: "https://www.reddit.com/r/gaming/comments/abc123/title/",
+      block: "bookmark",
+    });
+  });
+
+  test("should ignore unsupported URLs", () => {
+    expect(resolveEmbed("https://example.com/video")).toBeNull();
+    expect(resolveEmbed("https://www.youtube.com/channel/UC123")).toBeNull();
+    expect(resolveEmbed("https://twitter.com/Nintendo")).toBeNull();
+    expect(resolveEmbed("not a url")).toBeNull();
+  });
+});
@@ -0,0 +1,110 @@
+import { parseFeed, withPageContent } from "../utils/feed";
+
+describe("Feed parsing", () => {
+  test("should parse RSS 2.0 items", () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+      <rss version="2.0"
+        xmlns:content="http://purl.org/rss/1.0/modules/content/"
+        xmlns:dc="http://purl.org/dc/elements/1.1/"
+        xmlns:media="http://search.yahoo.com/mrss/">
+        <channel>
+          <title>Atomix</title>
+          <item>
+            <title>New trailer</title>
+            <link>https://atomix.vg/new-trailer/</link>
+            <dc:creator><![CDATA[Jane Doe]]></dc:creator>
+            <pubDate>Mon, 05 Aug 2024 18:30:00 +0000</pubDate>
+            <category><![CDATA[Trailers]]></category>
+            <category><![CDATA[Nintendo]]></category>
+            <guid isPermaLink="false">https://atomix.vg/?p=123</guid>
+            <description><![CDATA[Short excerpt]]></description>
+            <content:encoded><![CDATA[<p>Full <b>body</b></p>]]></content:encoded>
+            <media:thumbnail url="https://atomix.vg/thumb.jpg"/>
+            <media:content url="https://atomix.vg/cover.jpg" medium="image"/>
+          </item>
+        </channel>
+      </rss>`;
+
+    expect(parseFeed(xml)).toEqual([
+      {
+        id: "https://atomix.vg/?p=123",
+        title: "New trailer",
+        author: "Jane Doe",
+        link: "https://atomix.vg/new-trailer/",
+        date: new Date("2024-08-05T18:30:00Z"),
+        summary: "Short excerpt",
+        content: "<p>Full <b>body</b></p>",
+        categories: ["Trailers", "Nintendo"],
+        image: "https://atomix.vg/cover.jpg",
+      },
+    ]);
+  });
+
+  test("should parse Atom entries", () => {
+    const xml = `<?xml version="1.0" encoding="utf-8"?>
+      <feed xmlns="http://www.w3.org/2005/Atom">
+        <title>Example</title>
+        <entry>
+          <title>Patch notes</title>
+          <link rel="self" href="https://example.com/self"/>
+          <link rel="alternate" href="https://example.com/patch-notes"/>
+          <link rel="enclosure" type="image/png" href="https://example.com/cover.png"/>
+          <id>tag:example.com,2024:1</id>
+          <updated>2024-08-06T10:00:00Z</updated>
+          <author><name>John Roe</name></author>
+          <summary>Summary text</summary>
+        </entry>
+        <entry>
+          <title>No link</title>
+        </entry>
+      </feed>`;
+
+    const [item, ...rest] = parseFeed(xml);
+
+    expect(rest).toHaveLength(0);
+    expect(item).toMatchObject({
+      id: "tag:example.com,2024:1",
+      title: "Patch notes",
+      author: "John Roe",
+      link: "https://example.com/patch-notes",
+      date: new Date("2024-08-06T10:00:00Z"),
+      summary: "Summary text",
+      content: "",
+      image: "https://example.com/cover.png",
+    });
+  });
+});
+
+describe("Feed page content", () => {
+  const article = {
+    entryId: "feed-guid",
+    title: "Feed title",
+    author: "",
+    content: "<p>Excerpt</p>",
+    summary: "Feed summary",
+    link: "https://example.com/post",
+    date: new Date("2024-08-01T00:00:00Z"),
+    tags: [],
+  };
+
+  test("should keep the feed metadata and take the page body", () => {
+    const merged = withPageContent(article, {
+      ...article,
+      entryId: "page-id",
+      title: "Page title",
+      author: "Page author",
+      content: "<p>Full body</p>",
+      summary: "Page summary",
+      tags: ["News"],
+    });
+
+    expect(merged).toMatchObject({
+      entryId: "feed-guid",
+      title: "Feed title",
+      author: "Page author",
+      content: "<p>Full body</p>",
+      summary: "Feed summary",
+      tags: ["News"],
+    });
+  });
+});
@@ -0,0 +1,249 @@
+import { htmlToNotionBlocks } from "../utils/htmlToNotion";
+
+const text = (content: string, extra: object = {}) => ({
+  type: "text",
+  text: { content },
+  ...extra,
+});
+
+describe("HTML to Notion conversion", () => {
+  test("should convert paragraphs with inline formatting and links", () => {
+    const { blocks } = htmlToNotionBlocks(
+      `<p>Read <a href="https://example.com/">the <b>full</b> story</a> and
+        <s>old</s> <code>npm i</code> news</p>`
+    );
+
+    expect(blocks).toEqual([
+      {
+        type: "paragraph",
+        paragraph: {
+          rich_text: [
+            text("Read "),
+            {
+              type: "text",
+              text: { content: "the ", link: { url: "https://example.com/" } },
+            },
+            {
+              type: "text",
+              text: { content: "full", link: { url: "https://example.com/" } },
+              annotations: { bold: true },
+            },
+            {
+              type: "text",
+              text: {
+                content: " story",
+                link: { url: "https://example.com/" },
+              },
+            },
+            text(" and "),
+            text("old", { annotations: { strikethrough: true } }),
+            text(" "),
+            text("npm i", { annotations: { code: true } }),
+            text(" news"),
+          ],
+        },
+      },
+    ]);
+  });
+
+  test("should keep text that isn't wrapped in a paragraph", () => {
+    const { blocks } = htmlToNotionBlocks(
+      `<div>Loose text<img src="https://example.com/a.jpg">More text</div>`
+    );
+
+    expect(blocks).toEqual([
+      { type: "paragraph", paragraph: { rich_text: [text("Loose text")] } },
+      {
+        type: "image",
+        image: {
+          type: "external",
+          external: { url: "https://example.com/a.jpg" },
+        },
+      },
+      { type: "paragraph", paragraph: { rich_text: [text("More text")] } },
+    ]);
+  });
+
+  test("should convert headings, quotes, code and dividers", () => {
+    const { blocks } = htmlToNotionBlocks(
+      `<h2>Review</h2><h5>Verdict</h5><blockquote><p>Great game</p></blockquote>
+       <hr><pre><code class="language-js">if (a &lt; b) {
+  run();
+}</code></pre>`
+    );
+
+    expect(blocks).toEqual([
+      { type: "heading_2", heading_2: { rich_text: [text("Review")] } },
+      { type: "heading_3", heading_3: { rich_text: [text("Verdict")] } },
+      { type: "quote", quote: { rich_text: [text("Great game")] } },
+      { type: "divider", divider: {} },
+      {
+        type: "code",
+        code: {
+          rich_text: [text("if (a < b) {\n  run();\n}")],
+          language: "javascript",
+        },
+      },
+    ]);
+  });
+
+  test("should convert nested lists", () => {
+    const { blocks } = htmlToNotionBlocks(
+      `<ul><li>Consoles<ol><li>PS5</li><li>Switch</li></ol></li><li>PC</li></ul>`
+    );
+
+    expect(blocks).toEqual([
+      {
+        type: "bulleted_list_item",
+        bulleted_list_item: {
+          rich_text: [text("Consoles")],
+          children: [
+            {
+              type: "numbered_list_item",
+              numbered_list_item: { rich_text: [text("PS5")] },
+            },
+            {
+              type: "numbered_list_item",
+              numbered_list_item: { rich_text: [text("Switch")] },
+            },
+          ],
+        },
+      },
+      {
+        type: "bulleted_list_item",
+        bulleted_list_item: { rich_text: [text("PC")] },
+      },
+    ]);
+  });
+
+  test("should flatten lists nested deeper than the API allows", () => {
+    const { blocks } = htmlToNotionBlocks(
+      `<ul><li>1<ul><li>2<ul><li>3<ul><li>4</li></ul></li></ul></li></ul></li></ul>`
+    );
+
+    const level2 = (blocks[0] as any).bulleted_list_item.children[0]
+      .bulleted_list_item.children;
+    expect(level2).toHaveLength(2);
+    expect(level2[0].bulleted_list_item).toEqual({ rich_text: [text("3")] });
+    expect(level2[1].bulleted_list_item).toEqual({ rich_text: [text("4")] });
+  });
+
+  test("should convert tables", () => {
+    const { blocks } = htmlToNotionBlocks(
+      `<table><thead><tr><th>Game</th><th>Score</th></tr></thead>
+       <tbody><tr><td>Zelda</td><td><b>10</b></td></tr><tr><td>Other</td></tr></tbody></table>`
+    );
+
+    expect(blocks).toEqual([
+      {
+        type: "table",
+        table: {
+          table_width: 2,
+          has_column_header: true,
+          children: [
+            {
+              type: "table_row",
+              table_row: { cells: [[text("Game")], [text("Score")]] },
+            },
+            {
+              type: "table_row",
+              table_row: {
+                cells: [
+                  [text("Zelda")],
+                  [text("10", { annotations: { bold: true } })],
+                ],
+              },
+            },
+            { type: "table_row", table_row: { cells: [[text("Other")], []] } },
+          ],
+        },
+      },
+    ]);
+  });
+
+  test("should use figure captions as image captions", () => {
+    const { blocks } = htmlToNotionBlocks(
+      `<figure><img src="https://example.com/cover.png"><figcaption>Key <i>art</i></figcaption></figure>`
+    );
+
+    expect(blocks).toEqual([
+      {
+        type: "image",
+        image: {
+          type: "external",
+          external: { url: "https://example.com/cover.png" },
+          caption: [
+            text("Key "),
+            text("art", { annotations: { italic: true } }),
+          ],
+        },
+      },
+    ]);
+  });
+
+  test("should report unsupported elements", () => {
+    const { blocks, unsupportedElements } = htmlToNotionBlocks(
+      `<p>Trailer</p><iframe src="https://example.com/embed"></iframe>
+       <iframe></iframe><dl><dt>Term</dt></dl><script>track()</script>`
+    );
+
+    expect(blocks).toEqual([
+      { type: "paragraph", paragraph: { rich_text: [text("Trailer")] } },
+      { type: "paragraph", paragraph: { rich_text: [text("Term")] } },
+    ]);
+    expect(unsupportedElements).toEqual({ iframe: 2, dl: 1, dt: 1 });
+  });
+
+  test("should convert video and social embeds", () => {
+    const { blocks, unsupportedElements } = htmlToNotionBlocks(
+      `<iframe data-src="https://www.youtube.com/embed/dQw4w9WgXcQ"></iframe>
+       <blockquote class="twitter-tweet"><p>New trailer!</p>&mdash; Nintendo
+         <a href="https://twitter.com/Nintendo/status/1234567890?ref_src=twsrc">August 5, 2024</a>
+       </blockquote>
+       <p><a href="https://vimeo.com/76979871">https://vimeo.com/76979871</a></p>
+       <figure class="wp-block-embed"><div class="wp-block-embed__wrapper">
+         https://www.reddit.com/r/gaming/comments/abc123/title/
+       </div></figure>`
+    );
+
+    expect(blocks).toEqual([
+      {
+        type: "video",
+        video: {
+          type: "external",
+          external: { url: "https://www.youtube.com/watch?v=dQw4w9WgXcQ" },
+        },
+      },
+      {
+        type: "embed",
+        embed: { url: "https://twitter.com/Nintendo/status/1234567890" },
+      },
+      {
+        type: "video",
+        video: {
+          type: "external",
+          external: { url: "https://vimeo.com/76979871" },
+        },
+      },
+      {
+        type: "bookmark",
+        bookmark: {
+          url: "https://www.reddit.com/r/gaming/comments/abc123/title/",
+        },
+      },
+    ]);
+    expect(unsupportedElements).toEqual({});
+  });
+
+  test("should split text longer than the rich text limit", () => {
+    const words = "word ".repeat(1000).trim();
+    const { blocks } = htmlToNotionBlocks(`<p><i>${words}</i></p>`);
+
+    expect(blocks).toHaveLength(1);
+    const { rich_text } = (blocks[0] as any).paragraph;
+    expect(rich_text.map((item: any) => item.text.content.length)).toEqual([
+      2000, 2000, 999,
+    ]);
+    expect(rich_text.every((item: any) => item.annotations.italic)).toBe(true);
+  });
+});
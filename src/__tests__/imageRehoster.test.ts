@@ -0,0 +1,90 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createHash } from "crypto";
+import { APIErrorCode, APIResponseError } from "@notionhq/client";
+import type { Client } from "@notionhq/client";
+import { ImageRehoster } from "../utils/imageRehoster";
+
+describe("Image rehosting", () => {
+  let cacheDir: string;
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), "images-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  const writeCache = (url: string) => {
+    const hash = createHash("sha256").update(url).digest("hex");
+    fs.writeFileSync(path.join(cacheDir, hash), Buffer.from("png-bytes"));
+    fs.writeFileSync(
+      path.join(cacheDir, `${hash}.json`),
+      JSON.stringify({ url, filename: "cover.png", contentType: "image/png" })
+    );
+  };
+
+  test("should upload cached images without downloading them again", async () => {
+    const url = "https://cdn.example.com/Cover.PNG";
+    writeCache(url);
+
+    const create = jest.fn().mockResolvedValue({ id: "upload-1" });
+    const send = jest.fn().mockResolvedValue({});
+    const notion = { fileUploads: { create, send } } as unknown as Client;
+
+    const rehoster = new ImageRehoster(notion, cacheDir);
+
+    await expect(rehoster.upload(url)).resolves.toBe("upload-1");
+    expect(create).toHaveBeenCalledWith({
+      mode: "single_part",
+      filename: "cover.png",
+      content_type: "image/png",
+    });
+    expect(send.mock.calls[0][0]).toMatchObject({
+      file_upload_id: "upload-1",
+      file: { filename: "cover.png" },
+    });
+  });
+
+  test("should fall back when the upload fails", async () => {
+    const url = "https://cdn.example.com/cover.png";
+    writeCache(url);
+
+    const create = jest.fn().mockRejectedValue(new Error("rate limited"));
+    const notion = { fileUploads: { create } } as unknown as Client;
+
+    await expect(
+      new ImageRehoster(notion, cacheDir).upload(url)
+    ).resolves.toBeNull();
+  });
+
+  test("should retry uploads Notion rate limits", async () => {
+    const url = "https://cdn.example.com/cover.png";
+    writeCache(url);
+
+    const rateLimited = new APIResponseError({
+      code: APIErrorCode.RateLimited,
+      status: 429,
+      message: "rate limited",
+      headers: { "retry-after": "0" },
+      rawBodyText: "",
+    });
+    const create = jest
+      .fn()
+      .mockRejectedValueOnce(rateLimited)
+      .mockResolvedValue({ id: "upload-1" });
+    const send = jest
+      .fn()
+      .mockRejectedValueOnce(rateLimited)
+      .mockResolvedValue({});
+    const notion = { fileUploads: { create, send } } as unknown as Client;
+
+    await expect(new ImageRehoster(notion, cacheDir).upload(url)).resolves.toBe(
+      "upload-1"
+    );
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,21 @@
+import { findContentImage, findLeadImage } from "../utils/leadImage";
+
+const url = "https://atomix.vg/news/new-trailer/";
+
+describe("Lead image extraction", () => {
+  test("should prefer the metadata image", () => {
+    expect(
+      findLeadImage({ image: "/og.jpg", tags: [] }, '<img src="/a.jpg">', url)
+    ).toBe("https://atomix.vg/og.jpg");
+  });
+
+  test("should fall back to the first usable content image", () => {
+    const content =
+      '<p><img src="data:image/gif;base64,R0lGOD" data-src="lazy.jpg"></p><img src="b.jpg">';
+
+    expect(
+      findLeadImage({ image: "javascript:alert(1)", tags: [] }, content, url)
+    ).toBe("https://atomix.vg/news/new-trailer/lazy.jpg");
+    expect(findContentImage("<p>No images</p>", url)).toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+import * as cheerio from "cheerio";
+import { extractMetadata } from "../utils/metadata";
+
+describe("Article metadata extraction", () => {
+  test("should read JSON-LD articles inside a graph", () => {
+    const $ = cheerio.load(`<html><head>
+      <script type="application/ld+json">not json</script>
+      <script type="application/ld+json">${JSON.stringify({
+        "@context": "https://schema.org",
+        "@graph": [
+          { "@type": "WebSite", name: "Atomix" },
+          {
+            "@type": ["NewsArticle"],
+            headline: "Nuevo tr&aacute;iler",
+            author: [{ "@type": "Person", name: "Jane Doe" }, "John Roe"],
+            datePublished: "2024-08-05T18:30:00+00:00",
+            dateModified: "2024-08-06T09:00:00+00:00",
+            description: "Short excerpt",
+            image: { "@type": "ImageObject", url: "https://atomix.vg/a.jpg" },
+            articleSection: ["Noticias"],
+            keywords: "Nintendo, Trailers",
+          },
+        ],
+      })}</script>
+      <meta property="og:title" content="OpenGraph title">
+    </head></html>`);
+
+    expect(extractMetadata($)).toEqual({
+      title: "Nuevo tráiler",
+      author: "Jane Doe, John Roe",
+      published: new Date("2024-08-05T18:30:00Z"),
+      modified: new Date("2024-08-06T09:00:00Z"),
+      description: "Short excerpt",
+      image: "https://atomix.vg/a.jpg",
+      section: "Noticias",
+      tags: ["Nintendo", "Trailers"],
+    });
+  });
+
+  test("should fall back to meta tags and time elements", () => {
+    const $ = cheerio.load(`<html><head>
+      <title>Page title</title>
+      <meta property="og:title" content="New trailer">
+      <meta property="og:description" content="Excerpt">
+      <meta property="og:image" content="https://example.com/og.jpg">
+      <meta property="article:author" content="https://facebook.com/jane">
+      <meta name="author" content="Jane Doe">
+      <meta property="article:section" content="News">
+      <meta property="article:tag" content="Nintendo">
+      <meta property="article:tag" content="Switch">
+    </head><body>
+      <time datetime="2024-08-05T18:30:00Z">5 Aug</time>
+    </body></html>`);
+
+    expect(extractMetadata($)).toEqual({
+      title: "New trailer",
+      author: "Jane Doe",
+      published: new Date("2024-08-05T18:30:00Z"),
+      modified: undefined,
+      description: "Excerpt",
+      image: "https://example.com/og.jpg",
+      section: "News",
+      tags: ["Nintendo", "Switch"],
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { APIErrorCode, APIResponseError } from "@notionhq/client";
+import { config } from "../config";
+import { EntryModel } from "../models";
+import { NotionClient } from "../utils/notion";
+
+const apiError = (code: APIErrorCode, status: number) =>
+  new APIResponseError({
+    code,
+    status,
+    message: code,
+    headers: {},
+    rawBodyText: "",
+  });
+
+// Client whose Notion API calls are replaced with the given fakes
+const clientWith = (notion: Record<string, unknown>): NotionClient => {
+  const client = new NotionClient();
+  Object.assign(client, { notion });
+  return client;
+};
+
+describe("Notion client", () => {
+  describe("isPageLive", () => {
+    const retrieving = (retrieve: jest.Mock) =>
+      clientWith({ pages: { retrieve } });
+
+    test("should report archived and deleted pages as not live", async () => {
+      const archived = retrieving(
+        jest.fn().mockResolvedValue({
+          object: "page",
+          id: "page-1",
+          url: "https://notion.so/page-1",
+          properties: {},
+          archived: true,
+          in_trash: false,
+        })
+      );
+      await expect(archived.isPageLive("page-1")).resolves.toBe(false);
+
+      const deleted = retrieving(
+        jest.fn().mockRejectedValue(apiError(APIErrorCode.ObjectNotFound, 404))
+      );
+      await expect(deleted.isPageLive("page-1")).resolves.toBe(false);
+    });
+
+    test("should rethrow errors that don't mean the page is gone", async () => {
+      const error = apiError(APIErrorCode.Unauthorized, 401);
+      const client = retrieving(jest.fn().mockRejectedValue(error));
+      await expect(client.isPageLive("page-1")).rejects.toBe(error);
+
+      const networkError = new TypeError("fetch failed");
+      const offline = retrieving(jest.fn().mockRejectedValue(networkError));
+      await expect(offline.isPageLive("page-1")).rejects.toBe(networkError);
+    });
+  });
+
+  describe("updatePage", () => {
+    const entry = () =>
+      new EntryModel({
+        entryId: "test-123",
+        title: "Title",
+        content:
+          '<p>Body</p><img src="https://example.com/image.png" alt="Image">',
+        link: "https://example.com/test",
+        entryDate: new Date("2024-08-05T12:00:00Z"),
+        notionPageId: "page-1",
+      });
+
+    // Fake API logging its calls in order, failing the appends when asked
+    const updatingClient = (calls: string[], failAppend = false) => {
+      const client = clientWith({
+        pages: {
+          update: async () => calls.push("update"),
+        },
+        blocks: {
+          children: {
+            list: async () => ({
+              results: [{ id: "old-1" }, { id: "old-2" }],
+              next_cursor: null,
+            }),
+            append: async () => {
+              calls.push("append");
+              if (failAppend) throw new TypeError("fetch failed");
+              return { results: [] };
+            },
+          },
+          delete: async ({ block_id }: { block_id: string }) =>
+            calls.push(`delete ${block_id}`),
+        },
+      });
+      Object.assign(client, {
+        imageRehoster: {
+          upload: async () => {
+            calls.push("upload");
+            return "upload-1";
+          },
+        },
+      });
+      return client;
+    };
+
+    beforeEach(() => {
+      jest.replaceProperty(config.notion, "token", "secret");
+      jest.replaceProperty(config.notion, "rehostImages", true);
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    test("should build the new body before removing the old one", async () => {
+      const calls: string[] = [];
+      const body = await updatingClient(calls).updatePage(entry());
+
+      expect(body).toEqual({ droppedBlocks: 0, complete: true });
+      expect(calls).toEqual([
+        "upload",
+        "update",
+        "delete old-1",
+        "delete old-2",
+        "append",
+      ]);
+    });
+
+    test("should report a body that couldn't be appended", async () => {
+      const calls: string[] = [];
+      const body = await updatingClient(calls, true).updatePage(entry());
+
+      expect(body).toEqual({ droppedBlocks: 0, complete: false });
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import type { BlockObjectRequest } from "@notionhq/client/build/src/api-endpoints";
+import { prepareBlockBatches } from "../utils/notionBlocks";
+
+const paragraph = (content: string): BlockObjectRequest => ({
+  type: "paragraph",
+  paragraph: { rich_text: [{ type: "text", text: { content } }] },
+});
+
+const listItem = (
+  content: string,
+  children: BlockObjectRequest[] = []
+): BlockObjectRequest =>
+  ({
+    type: "bulleted_list_item",
+    bulleted_list_item: {
+      rich_text: [{ type: "text", text: { content } }],
+      ...(children.length > 0 ? { children } : {}),
+    },
+  } as BlockObjectRequest);
+
+const range = (count: number) => Array.from({ length: count }, (_, i) => i);
+
+describe("Notion block batching", () => {
+  test("should split blocks into batches of 100", () => {
+    const blocks = range(250).map((i) => paragraph(`p${i}`));
+
+    const batches = prepareBlockBatches(blocks);
+
+    expect(batches.map((batch) => batch.blocks.length)).toEqual([100, 100, 50]);
+    expect(batches[2].blocks[0]).toEqual(paragraph("p200"));
+    expect(batches.every((batch) => batch.dropped === 0)).toBe(true);
+  });
+
+  test("should move children over the limit to the overflow", () => {
+    const children = range(150).map((i) => listItem(`child${i}`));
+    const [batch] = prepareBlockBatches([
+      paragraph("intro"),
+      listItem("parent", children),
+    ]);
+
+    const parent = batch.blocks[1] as any;
+    expect(parent.bulleted_list_item.children).toHaveLength(100);
+    expect(batch.overflow.get(1)).toEqual(children.slice(100));
+    expect(batch.overflow.has(0)).toBe(false);
+  });
+
+  test("should drop grandchildren over the limit", () => {
+    const grandchildren = range(120).map((i) => paragraph(`g${i}`));
+    const [batch] = prepareBlockBatches([
+      listItem("parent", [listItem("child", grandchildren)]),
+    ]);
+
+    const child = (batch.blocks[0] as any).bulleted_list_item.children[0];
+    expect(child.bulleted_list_item.children).toHaveLength(100);
+    expect(batch.dropped).toBe(20);
+  });
+
+  test("should keep batches under 1000 block elements", () => {
+    const block = listItem(
+      "parent",
+      range(99).map((i) => paragraph(`c${i}`))
+    );
+
+    const batches = prepareBlockBatches(range(25).map(() => block));
+
+    expect(batches.map((batch) => batch.blocks.length)).toEqual([10, 10, 5]);
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  DEFAULT_NOTION_PROPERTIES,
+  validateNotionProperties,
+} from "../config/notionProperties";
+import { buildPropertyValue, countWords } from "../utils/notionProperties";
+
+describe("Notion property mapping", () => {
+  test("should accept the default mapping", () => {
+    expect(validateNotionProperties(DEFAULT_NOTION_PROPERTIES)).toEqual([]);
+    // Databases created before the mapping was configurable only have these
+    expect(DEFAULT_NOTION_PROPERTIES.map(({ property }) => property)).toEqual([
+      "title",
+      "author",
+      "link",
+      "entryDate",
+      "summary",
+    ]);
+  });
+
+  test("should accept a valid mapping", () => {
+    expect(
+      validateNotionProperties([
+        { field: "title", property: "Name", type: "title" },
+        { field: "tags", property: "Tags", type: "multi_select" },
+        { field: "wordCount", property: "Words", type: "number" },
+        { field: "leadImage", property: "Cover", type: "files" },
+      ])
+    ).toEqual([]);
+  });
+
+  test("should report incompatible types and missing title", () => {
+    expect(
+      validateNotionProperties([
+        { field: "entryDate", property: "Published", type: "number" },
+        { field: "rating", property: "Rating", type: "number" },
+      ])
+    ).toEqual([
+      'mapping #1: field "entryDate" can\'t be written as "number" (allowed: date, rich_text)',
+      expect.stringContaining("mapping #2: field must be one of"),
+      'exactly one property must have type "title", found 0',
+    ]);
+  });
+
+  test("should convert values to property payloads", () => {
+    expect(buildPropertyValue("select", "Reviews, PC")).toEqual({
+      select: { name: "Reviews  PC" },
+    });
+    expect(buildPropertyValue("multi_select", ["PC", "PC", "Xbox"])).toEqual({
+      multi_select: [{ name: "PC" }, { name: "Xbox" }],
+    });
+    expect(buildPropertyValue("url", null)).toEqual({ url: null });
+    expect(
+      buildPropertyValue("files", "https://example.com/images/cover%201.jpg")
+    ).toEqual({
+      files: [
+        {
+          type: "external",
+          name: "cover 1.jpg",
+          external: { url: "https://example.com/images/cover%201.jpg" },
+        },
+      ],
+    });
+    expect(buildPropertyValue("files", null)).toEqual({ files: [] });
+    expect(
+      buildPropertyValue("rich_text", new Date("2024-08-05T00:00:00Z"))
+    ).toEqual({
+      rich_text: [
+        { type: "text", text: { content: "2024-08-05T00:00:00.000Z" } },
+      ],
+    });
+  });
+
+  test("should keep property values within the API limits", () => {
+    const summary = "word ".repeat(900).trim();
+    const { rich_text } = buildPropertyValue("rich_text", summary) as {
+      rich_text: { text: { content: string } }[];
+    };
+    expect(rich_text.map((item) => item.text.content.length)).toEqual([
+      2000, 2000, 499,
+    ]);
+    expect(rich_text.map((item) => item.text.content).join("")).toBe(summary);
+
+    expect(
+      buildPropertyValue("url", `https://example.com/${"a".repeat(2000)}`)
+    ).toEqual({ url: null });
+    expect(
+      buildPropertyValue(
+        "multi_select",
+        Array.from({ length: 120 }, (_, i) => `tag${i}`)
+      )
+    ).toEqual({
+      multi_select: Array.from({ length: 100 }, (_, i) => ({
+        name: `tag${i}`,
+      })),
+    });
+  });
+
+  test("should count words in HTML content", () => {
+    expect(countWords("<p>One <b>two</b></p><p>three</p>")).toBe(3);
+    expect(countWords("")).toBe(0);
+  });
+});
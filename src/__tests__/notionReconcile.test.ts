@@ -0,0 +1,79 @@
+import { config } from "../config";
+import { EntryModel } from "../models";
+import { NotionReconcileJob } from "../jobs/notionReconcile";
+
+// The reconcile job connects through the database module, not needed here
+jest.mock("../database", () => ({
+  database: { isConnectedToDb: () => true },
+}));
+
+const page = (id: string, link: string | null, createdTime: string) => ({
+  id,
+  url: `https://notion.so/${id}`,
+  link,
+  createdTime,
+});
+
+// Job reading the given database pages, with every synced entry's page live
+const reconcilerWith = (pages: ReturnType<typeof page>[]) => {
+  const job = new NotionReconcileJob();
+  Object.assign(job, {
+    notionClient: {
+      testConnection: async () => true,
+      listDatabasePages: async () => pages,
+      isPageLive: async () => true,
+    },
+  });
+  return job;
+};
+
+describe("Notion reconcile", () => {
+  let find: jest.SpyInstance;
+
+  beforeEach(() => {
+    // Synced entries are read through a lean cursor of a few fields
+    const select = jest.fn(() => ({ lean: () => ({ cursor: () => [] }) }));
+    find = jest.spyOn(EntryModel, "find").mockReturnValue({ select } as never);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  test("should load only the fields needed to check synced entries", async () => {
+    await reconcilerWith([]).runOnce();
+
+    const { select } = find.mock.results[0].value;
+    expect(select).toHaveBeenCalledWith("entryId link notionPageId notionUrl");
+  });
+
+  test("should relink one page per link and report the duplicates", async () => {
+    jest.replaceProperty(config.notionReconcile, "repair", true);
+    const entry = new EntryModel({
+      entryId: "test-123",
+      content: "<p>Body</p>",
+      link: "https://example.com/a",
+      entryDate: new Date("2024-08-05T12:00:00Z"),
+    });
+    const save = jest.spyOn(entry, "save").mockResolvedValue(entry);
+    const findOne = jest
+      .spyOn(EntryModel, "findOne")
+      .mockImplementation(((filter: { link: string }) =>
+        Promise.resolve(
+          filter.link === "https://example.com/a" ? entry : null
+        )) as never);
+
+    const report = await reconcilerWith([
+      page("newer", "https://example.com/a", "2024-08-06T00:00:00.000Z"),
+      page("older", "https://example.com/a", "2024-08-05T00:00:00.000Z"),
+      page("manual", "https://example.com/b", "2024-08-05T00:00:00.000Z"),
+    ]).runOnce();
+
+    expect(report).toEqual({
+      missing: [],
+      relinked: ["test-123"],
+      orphans: ["https://notion.so/newer", "https://notion.so/manual"],
+    });
+    expect(findOne).toHaveBeenCalledTimes(2);
+    expect(save).toHaveBeenCalledTimes(1);
+    expect(entry.notionPageId).toBe("older");
+  });
+});
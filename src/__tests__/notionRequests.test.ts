@@ -0,0 +1,112 @@
+import {
+  APIErrorCode,
+  APIResponseError,
+  RequestTimeoutError,
+} from "@notionhq/client";
+import {
+  getRequestRetryDelay,
+  parseRetryAfter,
+  withNotionRetry,
+} from "../utils/notionRequests";
+import { RateLimiter } from "../utils/rateLimiter";
+
+const options = { maxAttempts: 3, retryDelay: 1000, retryTimeouts: true };
+
+const apiError = (
+  code: APIErrorCode,
+  status: number,
+  headers: Record<string, string> = {}
+) =>
+  new APIResponseError({
+    code,
+    status,
+    message: code,
+    headers,
+    rawBodyText: "",
+  });
+
+describe("Notion requests", () => {
+  test("should parse Retry-After seconds and dates", () => {
+    const now = Date.parse("2024-08-05T12:00:00Z");
+    expect(parseRetryAfter("2", now)).toBe(2000);
+    expect(parseRetryAfter("0.5", now)).toBe(500);
+    expect(parseRetryAfter("Mon, 05 Aug 2024 12:00:30 GMT", now)).toBe(30000);
+    expect(parseRetryAfter("soon", now)).toBeNull();
+    expect(parseRetryAfter(null, now)).toBeNull();
+  });
+
+  test("should honor Retry-After on rate limits", () => {
+    const error = apiError(APIErrorCode.RateLimited, 429, {
+      "Retry-After": "7",
+    });
+    expect(getRequestRetryDelay(error, 1, options)).toBe(7000);
+    expect(getRequestRetryDelay(error, 3, options)).toBeNull();
+  });
+
+  test("should back off on retriable errors and not retry rejected requests", () => {
+    const conflict = apiError(APIErrorCode.ConflictError, 409);
+    expect(getRequestRetryDelay(conflict, 1, options)).toBe(1000);
+    expect(getRequestRetryDelay(conflict, 2, options)).toBe(2000);
+    expect(
+      getRequestRetryDelay(
+        apiError(APIErrorCode.ServiceUnavailable, 503),
+        1,
+        options
+      )
+    ).toBe(1000);
+    expect(
+      getRequestRetryDelay(
+        apiError(APIErrorCode.ValidationError, 400),
+        1,
+        options
+      )
+    ).toBeNull();
+    expect(
+      getRequestRetryDelay(new Error("invalid block"), 1, options)
+    ).toBeNull();
+  });
+
+  test("should only retry timeouts when asked to", () => {
+    const timeout = new RequestTimeoutError();
+    expect(getRequestRetryDelay(timeout, 1, options)).toBe(1000);
+    expect(
+      getRequestRetryDelay(timeout, 1, { ...options, retryTimeouts: false })
+    ).toBeNull();
+  });
+
+  describe("withNotionRetry", () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    test("should retry until the request succeeds and pause the limiter on rate limits", async () => {
+      const limiter = new RateLimiter(3, 10);
+      const pause = jest.spyOn(limiter, "pause");
+      const request = jest
+        .fn()
+        .mockRejectedValueOnce(
+          apiError(APIErrorCode.RateLimited, 429, { "retry-after": "2" })
+        )
+        .mockResolvedValueOnce("page");
+
+      const result = withNotionRetry(request, options, limiter);
+      await jest.advanceTimersByTimeAsync(2000);
+
+      await expect(result).resolves.toBe("page");
+      expect(request).toHaveBeenCalledTimes(2);
+      expect(pause).toHaveBeenCalledWith(2000);
+    });
+
+    test("should rethrow validation errors right away", async () => {
+      const error = apiError(APIErrorCode.ValidationError, 400);
+      const request = jest.fn().mockRejectedValue(error);
+
+      await expect(withNotionRetry(request, options)).rejects.toBe(error);
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+  });
+});
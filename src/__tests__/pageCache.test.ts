@@ -0,0 +1,146 @@
+import axios from "axios";
+import { PageCacheModel } from "../models";
+import {
+  PageCache,
+  conditionalHeaders,
+  syncPageCacheTtl,
+} from "../utils/pageCache";
+import { WebScraper } from "../utils/scraper";
+
+const url = "https://example.com/post";
+const cachedPage = {
+  url,
+  html: "<h1>Cached</h1>",
+  etag: '"abc"',
+  fetchedAt: new Date("2024-08-01T00:00:00Z"),
+};
+
+describe("Page cache", () => {
+  test("should send the cached validators back", () => {
+    expect(
+      conditionalHeaders({
+        etag: 'W/"5e1f-abc"',
+        lastModified: "Mon, 05 Aug 2024 12:00:00 GMT",
+      })
+    ).toEqual({
+      "If-None-Match": 'W/"5e1f-abc"',
+      "If-Modified-Since": "Mon, 05 Aug 2024 12:00:00 GMT",
+    });
+    expect(conditionalHeaders({ etag: '"abc"' })).toEqual({
+      "If-None-Match": '"abc"',
+    });
+  });
+
+  test("should send no conditions without a cached page", () => {
+    expect(conditionalHeaders(null)).toEqual({});
+    expect(conditionalHeaders({})).toEqual({});
+  });
+});
+
+describe("Page cache storage", () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  test("should store the validators the page was served with", async () => {
+    const updateOne = jest
+      .spyOn(PageCacheModel, "updateOne")
+      .mockResolvedValue({} as never);
+
+    await new PageCache().save(url, "<h1>Post</h1>", { etag: '"abc"' });
+
+    expect(updateOne).toHaveBeenCalledWith(
+      { url },
+      {
+        $set: expect.objectContaining({ html: "<h1>Post</h1>", etag: '"abc"' }),
+        $unset: { lastModified: 1 },
+      },
+      { upsert: true }
+    );
+  });
+
+  test("should treat an unreadable cache as empty", async () => {
+    jest
+      .spyOn(PageCacheModel, "findOne")
+      .mockRejectedValue(new Error("connection closed"));
+
+    expect(await new PageCache().get(url)).toBeNull();
+  });
+
+  test("should apply a changed expiry to the TTL index", async () => {
+    const command = jest.fn().mockResolvedValue({ ok: 1 });
+    Object.assign(PageCacheModel.db, { db: { command } });
+    const indexes = jest.spyOn(PageCacheModel.collection, "indexes");
+
+    indexes.mockResolvedValue([
+      { name: "checkedAt_1", key: { checkedAt: 1 }, expireAfterSeconds: 60 },
+    ]);
+    await syncPageCacheTtl();
+    expect(command).toHaveBeenCalledWith({
+      collMod: "pagecaches",
+      index: { name: "checkedAt_1", expireAfterSeconds: 30 * 24 * 60 * 60 },
+    });
+
+    command.mockClear();
+    indexes.mockResolvedValue([
+      {
+        name: "checkedAt_1",
+        key: { checkedAt: 1 },
+        expireAfterSeconds: 30 * 24 * 60 * 60,
+      },
+    ]);
+    await syncPageCacheTtl();
+    expect(command).not.toHaveBeenCalled();
+  });
+});
+
+describe("Page cache revalidation", () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  const scraperWith = (cache: Partial<PageCache>) => {
+    const scraper = new WebScraper();
+    Object.assign(scraper, {
+      pageCache: {
+        get: async () => null,
+        save: async () => undefined,
+        markChecked: async () => undefined,
+        ...cache,
+      },
+    });
+    return scraper;
+  };
+
+  test("should use the cached page when the server answers 304", async () => {
+    const markChecked = jest.fn().mockResolvedValue(undefined);
+    const scraper = scraperWith({
+      get: async () => cachedPage as never,
+      markChecked,
+    });
+    const get = jest
+      .spyOn(axios, "get")
+      .mockResolvedValue({ status: 304, data: "", headers: {} });
+
+    expect(await scraper["fetchArticlePage"](url)).toEqual({
+      html: "<h1>Cached</h1>",
+      notModified: true,
+    });
+    expect(get.mock.calls[0][1]?.headers).toMatchObject({
+      "If-None-Match": '"abc"',
+    });
+    expect(markChecked).toHaveBeenCalledWith(url);
+  });
+
+  test("should download and cache the page without a cached copy", async () => {
+    const save = jest.fn().mockResolvedValue(undefined);
+    const scraper = scraperWith({ save });
+    const headers = { etag: '"def"' };
+    const get = jest
+      .spyOn(axios, "get")
+      .mockResolvedValue({ status: 200, data: "<h1>Post</h1>", headers });
+
+    expect(await scraper["fetchArticlePage"](url)).toEqual({
+      html: "<h1>Post</h1>",
+      notModified: false,
+    });
+    expect(get.mock.calls[0][1]?.headers).not.toHaveProperty("If-None-Match");
+    expect(save).toHaveBeenCalledWith(url, "<h1>Post</h1>", headers);
+  });
+});
@@ -0,0 +1,53 @@
+import { RateLimiter } from "../utils/rateLimiter";
+
+describe("Rate limiter", () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date("2024-08-05T12:00:00Z") });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  // Times, relative to the start, at which each acquire resolved
+  const acquireAll = (limiter: RateLimiter, count: number): number[] => {
+    const start = Date.now();
+    const times: number[] = [];
+    for (let i = 0; i < count; i++) {
+      void limiter.acquire().then(() => times.push(Date.now() - start));
+    }
+    return times;
+  };
+
+  test("should allow a burst, then space requests at the average rate", async () => {
+    const times = acquireAll(new RateLimiter(2, 3), 6);
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(times).toEqual([0, 0, 0]);
+
+    await jest.advanceTimersByTimeAsync(1500);
+    expect(times).toEqual([0, 0, 0, 500, 1000, 1500]);
+  });
+
+  test("should refill the burst while idle", async () => {
+    const limiter = new RateLimiter(1, 2);
+    acquireAll(limiter, 2);
+    await jest.advanceTimersByTimeAsync(5000);
+
+    const times = acquireAll(limiter, 3);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(times).toEqual([0, 0, 1000]);
+  });
+
+  test("should hold every request while paused", async () => {
+    const limiter = new RateLimiter(10, 10);
+    limiter.pause(2000);
+
+    const times = acquireAll(limiter, 2);
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(times).toEqual([]);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(times).toEqual([2000, 2000]);
+  });
+});
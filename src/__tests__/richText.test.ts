@@ -0,0 +1,59 @@
+import { chunkRichText, splitRichText, splitText } from "../utils/richText";
+
+describe("Rich text limits", () => {
+  test("should split text at word boundaries", () => {
+    expect(splitText("one two three", 8)).toEqual(["one two ", "three"]);
+    expect(splitText("abcdefghij klm", 4)).toEqual([
+      "abcd",
+      "efgh",
+      "ij ",
+      "klm",
+    ]);
+    expect(splitText("short", 8)).toEqual(["short"]);
+    expect(splitText("")).toEqual([]);
+  });
+
+  test("should split long spans keeping annotations and links", () => {
+    const content = `${"a".repeat(1500)} ${"b".repeat(1500)}`;
+    const [first, second, ...rest] = splitRichText([
+      {
+        type: "text",
+        text: { content, link: { url: "https://example.com/" } },
+        annotations: { bold: true },
+      },
+    ]);
+
+    expect(rest).toHaveLength(0);
+    expect(first.text.content).toBe(`${"a".repeat(1500)} `);
+    expect(second.text.content).toBe("b".repeat(1500));
+    for (const item of [first, second]) {
+      expect(item.text.link).toEqual({ url: "https://example.com/" });
+      expect(item.annotations).toEqual({ bold: true });
+    }
+  });
+
+  test("should drop links longer than the URL limit", () => {
+    const [item] = splitRichText([
+      {
+        type: "text",
+        text: {
+          content: "link",
+          link: { url: `https://example.com/${"a".repeat(2000)}` },
+        },
+      },
+    ]);
+
+    expect(item.text).toEqual({ content: "link" });
+  });
+
+  test("should chunk spans into arrays of 100", () => {
+    const richText = Array.from({ length: 250 }, (_, i) => ({
+      type: "text" as const,
+      text: { content: `${i}` },
+    }));
+
+    expect(chunkRichText(richText).map((chunk) => chunk.length)).toEqual([
+      100, 100, 50,
+    ]);
+  });
+});
@@ -0,0 +1,119 @@
+import axios from "axios";
+import { config } from "../config";
+import {
+  RobotsChecker,
+  isPathAllowed,
+  parseRobotsTxt,
+  selectRobotsPolicy,
+} from "../utils/robots";
+
+const robotsTxt = `
+# Crawlers
+User-agent: *
+Disallow: /search
+Disallow: /*.pdf$
+Allow: /search/about
+Crawl-delay: 2
+
+User-agent: atomix-to-notion
+User-agent: OtherBot
+Disallow: /private/
+Disallow:
+
+Sitemap: https://example.com/sitemap.xml
+`;
+
+describe("robots.txt", () => {
+  const groups = parseRobotsTxt(robotsTxt);
+
+  test("should parse user-agent groups", () => {
+    expect(groups).toEqual([
+      {
+        userAgents: ["*"],
+        rules: [
+          { allow: false, path: "/search" },
+          { allow: false, path: "/*.pdf$" },
+          { allow: true, path: "/search/about" },
+        ],
+        crawlDelay: 2,
+      },
+      {
+        userAgents: ["atomix-to-notion", "otherbot"],
+        rules: [{ allow: false, path: "/private/" }],
+        crawlDelay: null,
+      },
+    ]);
+  });
+
+  test("should prefer the group naming our user agent", () => {
+    const policy = selectRobotsPolicy(groups, "Atomix-To-Notion");
+    expect(policy.crawlDelay).toBeNull();
+    expect(isPathAllowed(policy, "/private/page")).toBe(false);
+    expect(isPathAllowed(policy, "/search?q=zelda")).toBe(true);
+  });
+
+  test("should fall back to the * group", () => {
+    const policy = selectRobotsPolicy(groups, "some-crawler");
+    expect(policy.crawlDelay).toBe(2);
+    expect(isPathAllowed(policy, "/news/zelda")).toBe(true);
+    expect(isPathAllowed(policy, "/search?q=zelda")).toBe(false);
+    expect(isPathAllowed(policy, "/search/about")).toBe(true);
+    expect(isPathAllowed(policy, "/files/review.pdf")).toBe(false);
+    expect(isPathAllowed(policy, "/files/review.pdf?page=2")).toBe(true);
+  });
+
+  test("should let the longest rule win and allow win ties", () => {
+    const policy = {
+      rules: [
+        { allow: false, path: "/news" },
+        { allow: true, path: "/news" },
+        { allow: false, path: "/news/drafts" },
+      ],
+      crawlDelay: null,
+    };
+    expect(isPathAllowed(policy, "/news/zelda")).toBe(true);
+    expect(isPathAllowed(policy, "/news/drafts/1")).toBe(false);
+  });
+
+  test("should allow everything without matching groups", () => {
+    const policy = selectRobotsPolicy(
+      parseRobotsTxt("User-agent: OtherBot\nDisallow: /"),
+      "atomix-to-notion"
+    );
+    expect(policy).toEqual({ rules: [], crawlDelay: null });
+    expect(isPathAllowed(policy, "/anything")).toBe(true);
+  });
+
+  describe("checker", () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    test("should identify itself by its product token", async () => {
+      const get = jest
+        .spyOn(axios, "get")
+        .mockResolvedValue({ status: 200, data: robotsTxt });
+
+      await expect(
+        new RobotsChecker().isAllowed("https://example.com/private/draft")
+      ).resolves.toBe(false);
+      expect(get).toHaveBeenCalledWith(
+        "https://example.com/robots.txt",
+        expect.objectContaining({
+          headers: {
+            "User-Agent": expect.stringContaining(
+              config.crawler.robotsUserAgent
+            ),
+          },
+        })
+      );
+    });
+
+    test("should reject malformed URLs without fetching", async () => {
+      const get = jest.spyOn(axios, "get");
+      const checker = new RobotsChecker();
+
+      await expect(checker.isAllowed("https://")).resolves.toBe(false);
+      await expect(checker.getCrawlDelay("not a url")).resolves.toBeNull();
+      expect(get).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { sanitizeHtml } from "../utils/sanitizer";
+
+const baseUrl = "https://example.com/news/article/";
+
+describe("HTML sanitization", () => {
+  test("should strip banned elements and attributes", () => {
+    const { html, report } = sanitizeHtml(
+      `<div class="post-text" style="color: red" onclick="track()">
+        <p align="center">Hello <b>world</b></p>
+        <script>track()</script><form><input name="email"></form>
+        <img class="wide" src="/img/a.png" alt="A" data-id="1">
+        <pre class="language-js"><code>run()</code></pre>
+      </div>`,
+      { baseUrl }
+    );
+
+    expect(html).not.toMatch(/script|form|input|style=|onclick|align/);
+    expect(html).toContain("<p>Hello <b>world</b></p>");
+    expect(html).toContain('<img src="https://example.com/img/a.png" alt="A">');
+    expect(html).toContain('<pre class="language-js">');
+    expect(report.elements).toEqual({ script: 1, form: 1 });
+    expect(report.attributes).toEqual({
+      class: 2,
+      style: 1,
+      onclick: 1,
+      align: 1,
+      "data-id": 1,
+    });
+  });
+
+  test("should apply source remove selectors", () => {
+    const { html, report } = sanitizeHtml(
+      `<p>Body</p><div class="ad">Buy now</div><div class="ad">Sale</div>
+       <section id="newsletter">Subscribe</section>`,
+      { baseUrl, removeSelectors: [".ad", "#newsletter", ".missing"] }
+    );
+
+    expect(html).toBe("<p>Body</p>");
+    expect(report.selectors).toEqual({ ".ad": 2, "#newsletter": 1 });
+  });
+
+  test("should resolve relative URLs and drop unsafe ones", () => {
+    const { html, report } = sanitizeHtml(
+      `<a href="../other/">Other</a> <a href="javascript:void(0)">Share</a>
+       <img src="data:image/gif;base64,R0lG" data-src="//cdn.example.com/b.jpg">
+       <img src="">`,
+      { baseUrl }
+    );
+
+    expect(html).toContain(
+      '<a href="https://example.com/news/other/">Other</a>'
+    );
+    expect(html).toContain("<a>Share</a>");
+    expect(html).toContain('<img src="https://cdn.example.com/b.jpg">');
+    expect(html.match(/<img/g)).toHaveLength(1);
+    expect(report.attributes.href).toBe(1);
+    expect(report.elements.img).toBe(1);
+  });
+
+  test("should pick the best image source", () => {
+    const { html } = sanitizeHtml(
+      `<img src="/small.jpg" srcset="/small.jpg 300w, /large.jpg 1200w, /medium.jpg 800w">
+       <img src="data:image/gif;base64,R0lG" data-srcset="/a.png 1x, /a@2x.png 2x">
+       <img src="/Photos/Case-Sensitive.JPG">`,
+      { baseUrl }
+    );
+
+    expect(html.match(/src="[^"]+"/g)).toEqual([
+      'src="https://example.com/large.jpg"',
+      'src="https://example.com/a@2x.png"',
+      'src="https://example.com/Photos/Case-Sensitive.JPG"',
+    ]);
+  });
+
+  test("should keep supported embeds as links", () => {
+    const { html, report } = sanitizeHtml(
+      `<iframe src="https://www.youtube.com/embed/dQw4w9WgXcQ"></iframe>
+       <blockquote class="twitter-tweet"><p>Tweet</p>
+         <a href="https://twitter.com/Nintendo/status/123?ref_src=twsrc">Date</a>
+       </blockquote>
+       <iframe src="https://ads.example.com/frame"></iframe>`,
+      { baseUrl }
+    );
+
+    expect(html).toContain(
+      '<p><a href="https://www.youtube.com/watch?v=dQw4w9WgXcQ">https://www.youtube.com/watch?v=dQw4w9WgXcQ</a></p>'
+    );
+    expect(html).toContain(
+      '<p><a href="https://twitter.com/Nintendo/status/123">https://twitter.com/Nintendo/status/123</a></p>'
+    );
+    expect(html).not.toContain("iframe");
+    expect(report.elements).toEqual({ iframe: 1 });
+  });
+});
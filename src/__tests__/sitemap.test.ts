@@ -0,0 +1,157 @@
+import { parseSitemap, selectSitemapEntries } from "../utils/sitemap";
+
+describe("Sitemap parsing", () => {
+  test("should parse a sitemap index", () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+      <sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+        <sitemap>
+          <loc>https://example.com/post-sitemap.xml</loc>
+          <lastmod>2024-08-06T10:00:00+00:00</lastmod>
+        </sitemap>
+        <sitemap>
+          <loc>https://example.com/page-sitemap.xml</loc>
+        </sitemap>
+      </sitemapindex>`;
+
+    expect(parseSitemap(xml)).toEqual({
+      sitemaps: [
+        {
+          loc: "https://example.com/post-sitemap.xml",
+          lastmod: new Date("2024-08-06T10:00:00Z"),
+        },
+        { loc: "https://example.com/page-sitemap.xml", lastmod: null },
+      ],
+      urls: [],
+    });
+  });
+
+  test("should read Google News publication dates", () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+      <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"
+        xmlns:news="http://www.google.com/schemas/sitemap-news/0.9">
+        <url>
+          <loc>https://example.com/news/a</loc>
+          <lastmod>2024-08-01</lastmod>
+        </url>
+        <url>
+          <loc>https://example.com/news/b</loc>
+          <news:news>
+            <news:publication_date>2024-08-02T12:00:00Z</news:publication_date>
+            <news:title>B</news:title>
+          </news:news>
+        </url>
+      </urlset>`;
+
+    expect(parseSitemap(xml).urls).toEqual([
+      {
+        loc: "https://example.com/news/a",
+        lastmod: new Date("2024-08-01T00:00:00Z"),
+      },
+      {
+        loc: "https://example.com/news/b",
+        lastmod: new Date("2024-08-02T12:00:00Z"),
+      },
+    ]);
+  });
+});
+
+describe("Sitemap entry selection", () => {
+  const entry = (loc: string, lastmod: string | null) => ({
+    loc: `https://example.com/${loc}`,
+    lastmod: lastmod ? new Date(lastmod) : null,
+  });
+  const links = (...locs: string[]) =>
+    new Set(locs.map((loc) => `https://example.com/${loc}`));
+  const none = { known: new Set<string>(), settled: new Set<string>() };
+  const locs = (entries: { loc: string }[]) =>
+    entries.map((selected) => selected.loc.replace("https://example.com/", ""));
+
+  test("should crawl dated entries before undated ones", () => {
+    const selection = selectSitemapEntries(
+      [
+        entry("undated", null),
+        entry("new", "2024-08-03"),
+        entry("old", "2024-08-01"),
+      ],
+      null,
+      none,
+      2
+    );
+
+    expect(locs(selection.entries)).toEqual(["old", "new"]);
+    expect(selection.resumeFrom).toBeNull();
+  });
+
+  test("should resume from the last dated entry crawled", () => {
+    const selection = selectSitemapEntries(
+      [
+        entry("a", "2024-08-01"),
+        entry("b", "2024-08-02"),
+        entry("c", "2024-08-03"),
+        entry("undated", null),
+      ],
+      null,
+      none,
+      2
+    );
+
+    expect(locs(selection.entries)).toEqual(["a", "b"]);
+    expect(selection.resumeFrom).toEqual(new Date("2024-08-02"));
+  });
+
+  test("should pick up entries tied with the cutoff that weren't crawled", () => {
+    const selection = selectSitemapEntries(
+      [entry("a", "2024-08-02"), entry("b", "2024-08-02")],
+      new Date("2024-08-02"),
+      { known: links("a"), settled: links("a") },
+      2
+    );
+
+    expect(locs(selection.entries)).toEqual(["b"]);
+    expect(selection.resumeFrom).toBeNull();
+  });
+
+  test("should skip settled entries unless modified after the cutoff", () => {
+    const selection = selectSitemapEntries(
+      [
+        entry("settled-undated", null),
+        entry("new-undated", null),
+        entry("edited", "2024-08-05"),
+      ],
+      new Date("2024-08-02"),
+      {
+        known: links("settled-undated", "edited"),
+        settled: links("settled-undated", "edited"),
+      },
+      5
+    );
+
+    expect(locs(selection.entries)).toEqual(["edited", "new-undated"]);
+  });
+
+  test("should not treat entries as modified without a previous crawl", () => {
+    const selection = selectSitemapEntries(
+      [entry("settled", "2024-08-05"), entry("new", "2024-08-05")],
+      null,
+      { known: links("settled"), settled: links("settled") },
+      5
+    );
+
+    expect(locs(selection.entries)).toEqual(["new"]);
+  });
+
+  test("should crawl new entries of an undated sitemap before stored ones", () => {
+    const entries = ["a", "b", "c"].map((loc) => entry(loc, null));
+    const first = selectSitemapEntries(entries, null, none, 2);
+    // Stored on the first run, still within the revisit window
+    const second = selectSitemapEntries(
+      entries,
+      null,
+      { known: links("a", "b"), settled: new Set() },
+      2
+    );
+
+    expect(locs(first.entries)).toEqual(["a", "b"]);
+    expect(locs(second.entries)).toEqual(["c", "a"]);
+  });
+});
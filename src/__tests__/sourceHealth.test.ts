@@ -0,0 +1,88 @@
+import type { Source } from "../config";
+import type { ISourceHealthRun } from "../models";
+import {
+  createHealthRun,
+  evaluateSourceHealth,
+  recordArticleHits,
+} from "../utils/sourceHealth";
+import type { ScrapedArticle } from "../utils/scraper";
+
+const source: Source = {
+  name: "Example",
+  url: "https://example.com",
+  listingPath: "/news",
+  nextPageLoadsInSamePage: false,
+  selectors: {
+    articleLinks: "a.article",
+    title: "h1",
+    author: ".author",
+    content: ".content",
+    date: "",
+    entryId: "article",
+  },
+};
+
+const options = { minHitRate: 0.8, sampleSize: 4 };
+
+const run = (
+  links: number,
+  articles: number,
+  hits: Record<string, number>
+): ISourceHealthRun => ({ crawledAt: new Date(), links, articles, hits });
+
+describe("Source health", () => {
+  test("should count matches of configured selectors", () => {
+    const healthRun = createHealthRun(source, 12);
+    const article = {
+      selectorHits: { title: true, author: false, content: true },
+    } as ScrapedArticle;
+
+    recordArticleHits(healthRun, article);
+    recordArticleHits(healthRun, article);
+    recordArticleHits(healthRun, {} as ScrapedArticle);
+
+    expect(healthRun).toMatchObject({
+      links: 12,
+      articles: 2,
+      hits: { title: 2, author: 0, content: 2 },
+    });
+  });
+
+  test("should flag selectors below the hit rate over recent articles", () => {
+    const runs = [
+      run(10, 5, { title: 5, author: 5, content: 5 }),
+      run(10, 2, { title: 2, author: 0, content: 2 }),
+      run(10, 2, { title: 2, author: 0, content: 2 }),
+    ];
+
+    expect(evaluateSourceHealth(source, runs, options)).toEqual({
+      degraded: true,
+      reasons: ["selectors.author matched 0% of the last 4 articles"],
+      selectors: {
+        title: { hitRate: 1, articles: 4 },
+        author: { hitRate: 0, articles: 4 },
+        content: { hitRate: 1, articles: 4 },
+      },
+    });
+  });
+
+  test("should wait for enough articles before flagging a selector", () => {
+    const runs = [run(10, 2, { title: 0, author: 2, content: 2 })];
+    expect(evaluateSourceHealth(source, runs, options).degraded).toBe(false);
+  });
+
+  test("should flag listing pages without links", () => {
+    const runs = [run(0, 0, { title: 0, author: 0, content: 0 })];
+
+    expect(evaluateSourceHealth(source, runs, options).reasons).toEqual([
+      'no article links found with selectors.articleLinks "a.article"',
+    ]);
+    expect(
+      evaluateSourceHealth(
+        { ...source, feedUrl: "https://example.com/feed" },
+        runs,
+        options
+      ).degraded
+    ).toBe(false);
+  });
+});
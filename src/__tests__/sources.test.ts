@@ -0,0 +1,151 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  loadSources,
+  validateDateFormat,
+  validateSource,
+} from "../config/sources";
+
+const validSource = {
+  name: "Example",
+  url: "https://example.com",
+  listingPath: "/news",
+  dateFormat: "DD/MM/YYYY h:mm a",
+  selectors: {
+    articleLinks: "a.article",
+    title: "h1",
+    author: ".author",
+    content: ".content",
+    date: ".date",
+    entryId: "article",
+  },
+};
+
+describe("Source configuration", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "sources-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test("should accept a valid source", () => {
+    expect(validateSource(validSource)).toEqual([]);
+  });
+
+  test("should report missing selectors", () => {
+    const { content: _content, ...selectors } = validSource.selectors;
+    expect(validateSource({ ...validSource, selectors })).toEqual([
+      "selectors.content is required",
+    ]);
+  });
+
+  test("should let structured metadata replace title, author and date", () => {
+    const {
+      title: _title,
+      author: _author,
+      date: _date,
+      ...selectors
+    } = validSource.selectors;
+    expect(validateSource({ ...validSource, selectors })).toEqual([]);
+  });
+
+  test("should not require a content selector with automatic extraction", () => {
+    const { content: _content, ...selectors } = validSource.selectors;
+    expect(
+      validateSource({ ...validSource, contentExtraction: "auto", selectors })
+    ).toEqual([]);
+    expect(
+      validateSource({ ...validSource, contentExtraction: "readability" })
+    ).toEqual(["contentExtraction must be one of: selectors, auto"]);
+  });
+
+  test("should only require selectors for feeds that scrape full content", () => {
+    const feedSource = {
+      name: "Feed",
+      url: "https://example.com",
+      feedUrl: "https://example.com/feed/",
+    };
+
+    expect(validateSource(feedSource)).toEqual([]);
+    expect(validateSource({ ...feedSource, feedFullContent: true })).toEqual([
+      "selectors is required",
+    ]);
+    expect(
+      validateSource({
+        ...feedSource,
+        feedFullContent: true,
+        selectors: { content: ".content" },
+      })
+    ).toEqual([]);
+  });
+
+  test("should validate remove selectors", () => {
+    expect(
+      validateSource({ ...validSource, removeSelectors: [".ad", "#related"] })
+    ).toEqual([]);
+    expect(validateSource({ ...validSource, removeSelectors: ".ad" })).toEqual([
+      "removeSelectors must be a list of non-empty strings",
+    ]);
+  });
+
+  test("should validate politeness limits", () => {
+    expect(
+      validateSource({ ...validSource, concurrency: 2, minDelay: 0 })
+    ).toEqual([]);
+    expect(
+      validateSource({ ...validSource, concurrency: 0, minDelay: "1s" })
+    ).toEqual([
+      "concurrency must be a positive integer",
+      "minDelay must be a non-negative number of milliseconds",
+    ]);
+  });
+
+  test("should validate page icons", () => {
+    for (const icon of ["🎮", "🇪🇸", "👩🏽‍💻", "https://atomix.vg/favicon.png"]) {
+      expect(validateSource({ ...validSource, icon })).toEqual([]);
+    }
+    expect(validateSource({ ...validSource, icon: "games" })).toEqual([
+      "icon must be a single emoji or an http(s) URL",
+    ]);
+    expect(validateSource({ ...validSource, icon: "🎮🎲" })).toEqual([
+      "icon must be a single emoji or an http(s) URL",
+    ]);
+    expect(
+      validateSource({ ...validSource, icon: "ftp://atomix.vg/icon.png" })
+    ).toEqual(['icon must use http or https, got "ftp:"']);
+  });
+
+  test("should reject unknown date format tokens", () => {
+    expect(validateDateFormat("DD/MM/YYYY")).toBeNull();
+    expect(validateDateFormat("DD [de] MMMM YYYY")).toBeNull();
+    expect(validateDateFormat("DD/MM/YYYY qq")).toContain("unknown tokens: qq");
+  });
+
+  test("should load JSON and YAML files and disable invalid sources", () => {
+    fs.writeFileSync(path.join(tmpDir, "a.json"), JSON.stringify(validSource));
+    fs.writeFileSync(
+      path.join(tmpDir, "b.yaml"),
+      [
+        "- name: Example",
+        "  url: https://example.org",
+        "  selectors: { articleLinks: a, title: h1, author: p, content: div, date: time, entryId: article }",
+        "- name: Other",
+        "  url: https://other.com",
+        "  selectors: { articleLinks: a, title: h1, author: p, content: div, date: time, entryId: article }",
+      ].join("\n")
+    );
+
+    const { sources, errors } = loadSources(tmpDir);
+
+    expect(sources.map((source) => source.name)).toEqual(["Example", "Other"]);
+    expect(sources[1].listingPath).toBe("");
+    expect(sources[1].nextPageLoadsInSamePage).toBe(false);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toContain('source "Example" disabled: duplicate name');
+  });
+});
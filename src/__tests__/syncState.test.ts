@@ -0,0 +1,171 @@
+import { APIErrorCode, APIResponseError } from "@notionhq/client";
+import { EntryModel } from "../models";
+import { NotionSyncJob } from "../jobs/notionSync";
+import {
+  classifySyncError,
+  getRetryDelay,
+  legacySyncStatus,
+  markSyncFailure,
+  markSynced,
+  requeueEntry,
+} from "../utils/syncState";
+
+// The sync job connects through the database module, not needed here
+jest.mock("../database", () => ({ database: {} }));
+
+const options = { maxAttempts: 3, retryDelay: 1000, maxRetryDelay: 3000 };
+const now = new Date("2024-08-05T12:00:00Z");
+
+const apiError = (code: APIErrorCode, status: number) =>
+  new APIResponseError({
+    code,
+    status,
+    message: code,
+    headers: {},
+    rawBodyText: "",
+  });
+
+const newEntry = () =>
+  new EntryModel({
+    entryId: "test-123",
+    content: "<p>Body</p>",
+    link: "https://example.com/test",
+    entryDate: now,
+  });
+
+describe("Notion sync state", () => {
+  test("should classify errors", () => {
+    expect(classifySyncError(apiError(APIErrorCode.RateLimited, 429))).toBe(
+      "rate_limit"
+    );
+    expect(classifySyncError(apiError(APIErrorCode.ValidationError, 400))).toBe(
+      "validation"
+    );
+    expect(
+      classifySyncError(apiError(APIErrorCode.ServiceUnavailable, 503))
+    ).toBe("transient");
+    expect(classifySyncError(new TypeError("fetch failed"))).toBe("transient");
+  });
+
+  test("should back off exponentially up to the max delay", () => {
+    expect([1, 2, 3, 4].map((n) => getRetryDelay(n, options))).toEqual([
+      1000, 2000, 3000, 3000,
+    ]);
+  });
+
+  test("should retry transient errors until the attempts run out", () => {
+    const entry = newEntry();
+    expect(entry.syncStatus).toBe("pending");
+
+    markSyncFailure(entry, new Error("socket hang up"), options, now);
+    expect(entry.syncStatus).toBe("retrying");
+    expect(entry.syncAttempts).toBe(1);
+    expect(entry.nextAttemptAt).toEqual(new Date(now.getTime() + 1000));
+
+    markSyncFailure(entry, new Error("socket hang up"), options, now);
+    expect(entry.nextAttemptAt).toEqual(new Date(now.getTime() + 2000));
+
+    markSyncFailure(entry, new Error("socket hang up"), options, now);
+    expect(entry.syncStatus).toBe("failed");
+    expect(entry.nextAttemptAt).toBeUndefined();
+    expect(entry.entryErrors).toHaveLength(3);
+    expect(entry.entryErrors?.[0]).toBe(
+      "2024-08-05T12:00:00.000Z transient: socket hang up"
+    );
+
+    requeueEntry(entry);
+    expect(entry.syncStatus).toBe("pending");
+    expect(entry.syncAttempts).toBe(0);
+    expect(entry.entryErrors).toEqual([]);
+  });
+
+  test("should fail rejected requests and not count rate limits", () => {
+    const rejected = newEntry();
+    markSyncFailure(
+      rejected,
+      apiError(APIErrorCode.ValidationError, 400),
+      options,
+      now
+    );
+    expect(rejected.syncStatus).toBe("failed");
+    expect(rejected.syncErrorKind).toBe("validation");
+
+    const limited = newEntry();
+    markSyncFailure(
+      limited,
+      apiError(APIErrorCode.RateLimited, 429),
+      options,
+      now
+    );
+    expect(limited.syncStatus).toBe("retrying");
+    expect(limited.syncAttempts).toBe(0);
+
+    markSynced(limited);
+    expect(limited.syncStatus).toBe("synced");
+    expect(limited.syncErrorKind).toBeUndefined();
+  });
+
+  test("should tell synced legacy entries from ones the sync gave up on", () => {
+    const errors = (count: number) =>
+      Array.from({ length: count }, (_, i) => `error ${i}`);
+
+    expect(legacySyncStatus({ notionPageId: "page-1", created: true })).toBe(
+      "synced"
+    );
+    expect(legacySyncStatus({ created: true, entryErrors: [] })).toBe("synced");
+    expect(legacySyncStatus({ created: true, entryErrors: errors(4) })).toBe(
+      "synced"
+    );
+    expect(legacySyncStatus({ created: true, entryErrors: errors(5) })).toBe(
+      "failed"
+    );
+    expect(legacySyncStatus({ created: false, entryErrors: errors(2) })).toBe(
+      "pending"
+    );
+    expect(legacySyncStatus({})).toBe("pending");
+  });
+
+  test("should migrate legacy entries and drop their created flag", async () => {
+    const legacyEntries = [
+      { _id: "a", created: true, entryErrors: [] },
+      { _id: "b", created: true, entryErrors: ["1", "2", "3", "4", "5"] },
+      { _id: "c", created: false },
+      { _id: "d", created: true, notionPageId: "page-1" },
+      // Saved by the crawler with the schema defaults before migrating
+      {
+        _id: "e",
+        created: false,
+        syncStatus: "pending",
+        notionPageId: "page-2",
+      },
+    ];
+    jest.spyOn(EntryModel, "countDocuments").mockResolvedValue(5 as never);
+    const find = jest
+      .spyOn(EntryModel.collection, "find")
+      .mockReturnValue(legacyEntries as never);
+    const bulkWrite = jest
+      .spyOn(EntryModel.collection, "bulkWrite")
+      .mockResolvedValue({} as never);
+
+    await new NotionSyncJob()["migrateLegacyEntries"]();
+
+    expect(find.mock.calls[0][0]).toEqual({
+      $or: [{ syncStatus: { $exists: false } }, { created: { $exists: true } }],
+    });
+    expect(bulkWrite).toHaveBeenCalledTimes(1);
+    expect(bulkWrite.mock.calls[0][0]).toEqual(
+      [
+        ["a", "synced"],
+        ["b", "failed"],
+        ["c", "pending"],
+        ["d", "synced"],
+        ["e", "synced"],
+      ].map(([_id, syncStatus]) => ({
+        updateOne: {
+          filter: { _id },
+          update: { $set: { syncStatus }, $unset: { created: 1 } },
+        },
+      }))
+    );
+  });
+});
@@ -0,0 +1,19 @@
+import { entryIdFromUrl, findPostClassId } from "./defaultAdapter";
+import type { SourceAdapter } from "./types";
+
+export const atomixAdapter: SourceAdapter = {
+  name: "atomix",
+
+  // Atomix runs on WordPress, so the post ID maps to its ?p= permalink
+  deriveEntryId(context) {
+    const postId = findPostClassId(context);
+    return postId
+      ? `${context.source.url}/?p=${postId}`
+      : entryIdFromUrl(context.url);
+  },
+
+  // Atomix date text carries a dot that breaks dayjs parsing
+  normalizeDate(dateText) {
+    return dateText.replace(".", "").trim();
+  },
+};
@@ -0,0 +1,50 @@
+import type { EntryIdContext, ResolvedSourceAdapter } from "./types";
+
+// Returns the numeric part of the first "post-<id>" class found on the
+// elements matched by the entryId selector, e.g. WordPress' "post-12345"
+export function findPostClassId({ $, source }: EntryIdContext): string {
+  if (!source.selectors.entryId) return "";
+
+  const selectorList = source.selectors.entryId.split(", ");
+  for (const selector of selectorList) {
+    try {
+      const className = $(selector).first().attr("class") || "";
+      for (const classItem of className.split(" ")) {
+        if (classItem.startsWith("post-")) {
+          const id = classItem.split("-")[1] || "";
+          if (id) return id;
+        }
+      }
+    } catch {
+      /* ignore */
+    }
+  }
+  return "";
+}
+
+export function entryIdFromUrl(url: string): string {
+  const urlParts = url.split("/");
+  const lastPart = urlParts[urlParts.length - 1];
+  return lastPart ? lastPart.replace(/[^a-zA-Z0-9]/g, "") : "";
+}
+
+export const defaultAdapter: ResolvedSourceAdapter = {
+  name: "default",
+
+  deriveEntryId(context) {
+    return findPostClassId(context) || entryIdFromUrl(context.url);
+  },
+
+  normalizeDate(dateText) {
+    return dateText;
+  },
+
+  postProcessContent(content) {
+    return content;
+  },
+
+  // WebScraper.getArticleLinks already drops anchors and javascript: links
+  filterLink() {
+    return true;
+  },
+};
@@ -0,0 +1,7 @@
+export { SourceAdapter, ResolvedSourceAdapter, EntryIdContext } from "./types";
+export {
+  registerAdapter,
+  hasAdapter,
+  getAdapterNames,
+  resolveAdapter,
+} from "./registry";
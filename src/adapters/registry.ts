@@ -0,0 +1,26 @@
+import { atomixAdapter } from "./atomix";
+import { defaultAdapter } from "./defaultAdapter";
+import type { ResolvedSourceAdapter, SourceAdapter } from "./types";
+
+const adapters = new Map<string, SourceAdapter>();
+
+export function registerAdapter(adapter: SourceAdapter): void {
+  adapters.set(adapter.name, adapter);
+}
+
+export function hasAdapter(name: string): boolean {
+  return adapters.has(name);
+}
+
+export function getAdapterNames(): string[] {
+  return [...adapters.keys()];
+}
+
+export function resolveAdapter(name?: string): ResolvedSourceAdapter {
+  const adapter = name ? adapters.get(name) : undefined;
+  return { ...defaultAdapter, ...adapter };
+}
+
+// Built-in adapters; add new site adapters here
+registerAdapter(defaultAdapter);
+registerAdapter(atomixAdapter);
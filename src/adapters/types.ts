@@ -0,0 +1,20 @@
+import type { CheerioAPI } from "cheerio";
+import type { Source } from "../config";
+
+export interface EntryIdContext {
+  $: CheerioAPI;
+  url: string;
+  source: Source;
+}
+
+// Site-specific behaviour used by WebScraper and CrawlerJob. Every hook is
+// optional: anything an adapter leaves out falls back to the default adapter.
+export interface SourceAdapter {
+  name: string;
+  deriveEntryId?(context: EntryIdContext): string;
+  normalizeDate?(dateText: string, source: Source): string;
+  postProcessContent?(content: string, source: Source): string;
+  filterLink?(link: string, source: Source): boolean;
+}
+
+export type ResolvedSourceAdapter = Required<SourceAdapter>;
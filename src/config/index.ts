@@ -1,4 +1,6 @@
 import dotenv from "dotenv";
+import { loadSources } from "./sources";
+import { loadNotionProperties } from "./notionProperties";
 
 dotenv.config();
 
@@ -11,6 +13,7 @@ export interface SourceSelectors {
   date: string;
   entryId: string;
   summary?: string; // Optional field
+  tags?: string; // Optional field, every match becomes a tag
 }
 
 export interface Source {
@@ -20,9 +23,33 @@ export interface Source {
   nextPageSelector?: string; // Optional field
   nextPageLoadsInSamePage: boolean;
   dateFormat?: string; // Optional field
+  language?: string; // Language of the articles, e.g. "es"
+  icon?: string; // Notion page icon, an emoji or an image URL such as the favicon
+  adapter?: string; // Name of a registered SourceAdapter, defaults to "default"
+  feedUrl?: string; // RSS/Atom feed used instead of crawling listingPath
+  feedFullContent?: boolean; // Scrape each feed item's page for its full content
+  sitemapUrl?: string; // sitemap.xml, sitemap index or Google News sitemap
+  sitemapUrlPattern?: string; // Regex article URLs from the sitemap must match
+  removeSelectors?: string[]; // Ads, newsletters and other boilerplate to strip
+  concurrency?: number; // Requests to the source's site in flight at once
+  minDelay?: number; // ms between the start of two requests to the site
+  // "auto" finds the article body when selectors.content is unset or matches
+  // nothing, defaults to "selectors"
+  contentExtraction?: "selectors" | "auto";
   selectors: SourceSelectors;
 }
 
+const sourcesPath = process.env.SOURCES_PATH || "./sources";
+const loadedSources = loadSources(sourcesPath);
+
+// Product token the crawler identifies itself with, also matched against
+// robots.txt user-agent groups
+const robotsUserAgent = process.env.ROBOTS_USER_AGENT || "atomix-to-notion";
+
+const notionPropertiesPath =
+  process.env.NOTION_PROPERTIES_PATH || "./notion-properties.json";
+const loadedNotionProperties = loadNotionProperties(notionPropertiesPath);
+
 export const config = {
   // Database Configuration
   database: {
@@ -39,73 +66,99 @@ export const config = {
   notion: {
     token: process.env.NOTION_TOKEN || "",
     databaseId: process.env.NOTION_DATABASE_ID || "",
+    // Page the database is created under when it doesn't exist yet
+    parentPageId: process.env.NOTION_PARENT_PAGE_ID || "",
+    databaseTitle: process.env.NOTION_DATABASE_TITLE || "Gaming News",
+    // Mapping from entry fields to database properties
+    propertiesPath: notionPropertiesPath,
+    properties: loadedNotionProperties.properties,
+    propertyErrors: loadedNotionProperties.errors,
+    // Upload article images to Notion instead of hotlinking the source site
+    rehostImages: process.env.NOTION_REHOST_IMAGES === "true",
+    imageCachePath: process.env.IMAGE_CACHE_PATH || "./cache/images",
+    // Notion allows an average of 3 requests per second with short bursts
+    requestsPerSecond: parseFloat(
+      process.env.NOTION_REQUESTS_PER_SECOND || "3"
+    ),
+    requestBurst: parseInt(process.env.NOTION_REQUEST_BURST || "10"),
+    // Attempts per request when Notion is rate limiting or unavailable
+    maxRequestAttempts: parseInt(
+      process.env.NOTION_REQUEST_MAX_ATTEMPTS || "5"
+    ),
+    // Used when a failed response has no Retry-After, doubled on each retry
+    requestRetryDelay: parseInt(
+      process.env.NOTION_REQUEST_RETRY_DELAY || "1000"
+    ),
   },
 
   // Crawler Configuration
   crawler: {
     interval: process.env.CRAWLER_INTERVAL || "0 */6 * * *", // Every 6 hours
     maxArticlesPerRun: parseInt(process.env.MAX_ARTICLES_PER_RUN || "100"),
-    userAgent:
-      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36",
+    // Sent with every request, so sites can tell the crawler apart and
+    // match it to their robots.txt rules
+    userAgent: `Mozilla/5.0 (compatible; ${robotsUserAgent}/1.0)`,
     timeout: 30000,
     retries: 3,
     retryDelay: 20000,
     maxPages: parseInt(process.env.MAX_PAGES || "10"),
+    // Consecutive listing pages with only known articles before pagination stops (0 disables)
+    stopAfterKnownPages: parseInt(process.env.STOP_AFTER_KNOWN_PAGES || "1"),
+    // Known articles published within this many days are re-scraped to catch edits
+    revisitDays: parseInt(process.env.REVISIT_DAYS || "3"),
+    // Previous versions kept per entry, the oldest are dropped first
+    maxRevisions: parseInt(process.env.MAX_ENTRY_REVISIONS || "10"),
+    // Article requests in flight at once, across every source
+    concurrency: parseInt(process.env.CRAWLER_CONCURRENCY || "4"),
+    // Politeness defaults per site, sources can override them
+    hostConcurrency: parseInt(process.env.CRAWLER_HOST_CONCURRENCY || "1"),
+    hostMinDelay: parseInt(process.env.CRAWLER_HOST_MIN_DELAY || "1000"),
+    // Skip pages robots.txt disallows and honor its Crawl-delay
+    respectRobotsTxt: process.env.RESPECT_ROBOTS_TXT !== "false",
+    robotsUserAgent,
+    robotsCacheTtl: parseInt(process.env.ROBOTS_CACHE_TTL || "86400000"), // 24 hours
+    // Keep article HTML to revalidate it with conditional requests and
+    // re-extract articles without fetching them again
+    cachePages: process.env.PAGE_CACHE !== "false",
+    // Days a cached page is kept after it was last requested
+    pageCacheDays: parseInt(process.env.PAGE_CACHE_DAYS || "30"),
+  },
+
+  // Selector health monitoring
+  sourceHealth: {
+    // A selector is flagged when it matches fewer of the recent articles
+    minHitRate: parseFloat(process.env.SELECTOR_MIN_HIT_RATE || "0.8"),
+    // Recent articles a hit rate is computed over, across runs
+    sampleSize: parseInt(process.env.SELECTOR_HEALTH_SAMPLE_SIZE || "10"),
+    runsKept: parseInt(process.env.SELECTOR_HEALTH_RUNS_KEPT || "20"),
+    // Receives a JSON POST when a source becomes degraded or recovers
+    alertWebhookUrl: process.env.SOURCE_HEALTH_WEBHOOK_URL || "",
   },
 
   // Notion Sync Configuration
   notionSync: {
     interval: process.env.NOTION_SYNC_INTERVAL || "0 */4 * * *", // Every 4 hours
-    batchSize: parseInt(process.env.NOTION_SYNC_BATCH_SIZE || "10"),
+    // Throughput is governed by the request rate limit, not the batch size
+    batchSize: parseInt(process.env.NOTION_SYNC_BATCH_SIZE || "50"),
+    // Failed attempts before an entry is marked as failed
+    maxAttempts: parseInt(process.env.NOTION_SYNC_MAX_ATTEMPTS || "5"),
+    // First retry delay in ms, doubled on every failed attempt up to the max
+    retryDelay: parseInt(process.env.NOTION_SYNC_RETRY_DELAY || "900000"), // 15 minutes
+    maxRetryDelay: parseInt(
+      process.env.NOTION_SYNC_MAX_RETRY_DELAY || "86400000"
+    ), // 24 hours
   },
 
-  // Gaming News Sources
-  sources: [
-    {
-      name: "Atomix",
-      url: "https://atomix.vg",
-      listingPath: "",
-      nextPageSelector: "div.pagination-center > span", // Example selector for next page
-      nextPageLoadsInSamePage: true, // Navigate to new page
-      dateFormat: "DD/MM/YYYY h:mm a",
-      selectors: {
-        articleLinks:
-          "div.wrapper-wide .post div.twelve.columns h1.featured-image-narrow-title a",
-        title: "h1.featured-image-narrow-title",
-        author:
-          "div.single-post-content div.row span.author-dark a[rel='author']",
-        content: "div.single-post-content div.row div.post-text",
-        date: "div.single-post-content div.row span.date-dark",
-        entryId: "div.post",
-      },
-    },
-    // {
-    //   name: "IGN",
-    //   url: "https://www.ign.com",
-    //   listingPath: "/news",
-    //   selectors: {
-    //     articleLinks: 'a[href*="/articles/"]',
-    //     title: "h1.headline, h1.article-headline",
-    //     author: ".article-author a, .byline a",
-    //     content: ".article-content p, .article-body p",
-    //     summary: ".article-summary, .summary",
-    //     date: "time[datetime], .publish-date",
-    //   },
-    // },
-    // {
-    //   name: "Polygon",
-    //   url: "https://www.polygon.com",
-    //   listingPath: "/gaming",
-    //   selectors: {
-    //     articleLinks: 'a[href*="/polygon/"]',
-    //     title: "h1.duet--article--dangerously-set-cms-markup, h1.entry-title",
-    //     author: ".byline-author, .author-name",
-    //     content: ".duet--article--article-body p, .entry-content p",
-    //     summary: ".entry-summary, .summary",
-    //     date: "time[datetime], .publish-date",
-    //   },
-    // },
-  ] as Source[],
+  // Notion Reconcile Configuration
+  notionReconcile: {
+    interval: process.env.NOTION_RECONCILE_INTERVAL || "30 3 * * *", // Daily at 3:30
+    repair: process.env.NOTION_RECONCILE_REPAIR === "true", // Otherwise only report drift
+  },
+
+  // Gaming News Sources, loaded from SOURCES_PATH (a directory or a single file)
+  sourcesPath,
+  sources: loadedSources.sources,
+  sourceErrors: loadedSources.errors,
 
   // Logging Configuration
   logging: {
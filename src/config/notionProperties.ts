@@ -0,0 +1,158 @@
+import fs from "fs";
+import path from "path";
+import YAML from "yaml";
+
+export type NotionPropertyType =
+  | "title"
+  | "rich_text"
+  | "url"
+  | "date"
+  | "select"
+  | "multi_select"
+  | "number"
+  | "checkbox"
+  | "files";
+
+// Entry values that can be written to a Notion property
+export type EntryField =
+  | "entryId"
+  | "title"
+  | "author"
+  | "summary"
+  | "link"
+  | "entryDate"
+  | "source"
+  | "language"
+  | "tags"
+  | "leadImage"
+  | "wordCount"
+  | "edited";
+
+export interface NotionPropertyMapping {
+  field: EntryField;
+  property: string; // Property name in the Notion database
+  type: NotionPropertyType;
+}
+
+export interface NotionPropertyLoadResult {
+  properties: NotionPropertyMapping[];
+  errors: string[];
+}
+
+// Property types each field can be converted to
+const FIELD_TYPES: Record<EntryField, readonly NotionPropertyType[]> = {
+  entryId: ["title", "rich_text", "url", "select"],
+  title: ["title", "rich_text"],
+  author: ["title", "rich_text", "select"],
+  summary: ["title", "rich_text"],
+  link: ["title", "rich_text", "url"],
+  entryDate: ["date", "rich_text"],
+  source: ["title", "rich_text", "select"],
+  language: ["title", "rich_text", "select"],
+  tags: ["multi_select", "rich_text"],
+  leadImage: ["files", "url", "rich_text"],
+  wordCount: ["number", "rich_text"],
+  edited: ["checkbox"],
+};
+
+// The properties createPage wrote before the mapping was configurable, so
+// databases set up back then keep syncing without a mapping file
+export const DEFAULT_NOTION_PROPERTIES: NotionPropertyMapping[] = [
+  { field: "title", property: "title", type: "title" },
+  { field: "author", property: "author", type: "rich_text" },
+  { field: "link", property: "link", type: "url" },
+  { field: "entryDate", property: "entryDate", type: "date" },
+  { field: "summary", property: "summary", type: "rich_text" },
+];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export function validateNotionProperties(raw: unknown): string[] {
+  if (!Array.isArray(raw)) {
+    return ["property mapping must be a list"];
+  }
+
+  const errors: string[] = [];
+  const seenProperties = new Set<string>();
+
+  raw.forEach((mapping, index) => {
+    const label = `mapping #${index + 1}`;
+    if (!isPlainObject(mapping)) {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+
+    const { field, property, type } = mapping;
+    if (typeof property !== "string" || !property.trim()) {
+      errors.push(`${label}: property is required`);
+    } else if (seenProperties.has(property)) {
+      errors.push(`${label}: property "${property}" is mapped more than once`);
+    } else {
+      seenProperties.add(property);
+    }
+
+    if (typeof field !== "string" || !(field in FIELD_TYPES)) {
+      errors.push(
+        `${label}: field must be one of ${Object.keys(FIELD_TYPES).join(", ")}`
+      );
+      return;
+    }
+
+    const allowedTypes = FIELD_TYPES[field as EntryField];
+    if (!allowedTypes.includes(type as NotionPropertyType)) {
+      errors.push(
+        `${label}: field "${field}" can't be written as "${type}" (allowed: ${allowedTypes.join(
+          ", "
+        )})`
+      );
+    }
+  });
+
+  const titleCount = raw.filter(
+    (mapping) => isPlainObject(mapping) && mapping.type === "title"
+  ).length;
+  if (titleCount !== 1) {
+    errors.push(
+      `exactly one property must have type "title", found ${titleCount}`
+    );
+  }
+
+  return errors;
+}
+
+// Loads the mapping from a JSON/YAML file, falling back to the default
+// mapping when the file doesn't exist
+export function loadNotionProperties(
+  mappingPath: string
+): NotionPropertyLoadResult {
+  if (!fs.existsSync(mappingPath)) {
+    return { properties: DEFAULT_NOTION_PROPERTIES, errors: [] };
+  }
+
+  try {
+    const text = fs.readFileSync(mappingPath, "utf8");
+    const parsed =
+      path.extname(mappingPath) === ".json"
+        ? JSON.parse(text)
+        : YAML.parse(text);
+    const raw = isPlainObject(parsed) ? parsed.properties : parsed;
+    const errors = validateNotionProperties(raw).map(
+      (error) => `${mappingPath}: ${error}`
+    );
+
+    return {
+      properties: errors.length > 0 ? DEFAULT_NOTION_PROPERTIES : raw,
+      errors,
+    };
+  } catch (error) {
+    return {
+      properties: DEFAULT_NOTION_PROPERTIES,
+      errors: [
+        `${mappingPath}: failed to parse (${
+          error instanceof Error ? error.message : String(error)
+        })`,
+      ],
+    };
+  }
+}
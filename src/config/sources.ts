@@ -0,0 +1,362 @@
+import fs from "fs";
+import path from "path";
+import YAML from "yaml";
+import { getAdapterNames, hasAdapter } from "../adapters";
+import type { Source, SourceSelectors } from "./index";
+
+export interface SourceLoadResult {
+  sources: Source[];
+  errors: string[];
+}
+
+const SOURCE_FILE_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+const REQUIRED_SELECTORS = ["articleLinks", "content", "entryId"] as const;
+
+// Fall back to the page's structured metadata (JSON-LD, OpenGraph...) when
+// not set or when they match nothing
+const METADATA_SELECTORS = ["title", "author", "date"] as const;
+
+const OPTIONAL_SELECTORS = ["summary", "tags"] as const;
+
+const SELECTOR_KEYS = [
+  ...REQUIRED_SELECTORS,
+  ...METADATA_SELECTORS,
+  ...OPTIONAL_SELECTORS,
+] as const;
+
+const FEED_REQUIRED_SELECTORS = ["content"] as const;
+
+const CONTENT_EXTRACTION_MODES = ["selectors", "auto"] as const;
+
+// Tokens understood by dayjs' customParseFormat plugin, longest first
+const DATE_FORMAT_TOKENS =
+  /YYYY|YY|MMMM|MMM|MM|M|Do|DD|D|HH|H|hh|h|mm|m|ss|s|SSS|SS|S|ZZ|Z|A|a|X|x/g;
+
+// A single emoji, including flags, skin tones and ZWJ sequences
+const EMOJI_ICON =
+  /^(?:\p{Regional_Indicator}{2}|\p{Extended_Pictographic}(?:\p{Emoji_Modifier}|\uFE0F|\u200D\p{Extended_Pictographic})*)$/u;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+export function validateDateFormat(format: string): string | null {
+  // Escaped literals ([at], [de], ...) are copied verbatim by dayjs
+  const unescaped = format.replace(/\[[^\]]*\]/g, "");
+  if (!unescaped.match(DATE_FORMAT_TOKENS)) {
+    return `"${format}" does not contain any date tokens`;
+  }
+
+  const leftover = unescaped.replace(DATE_FORMAT_TOKENS, "");
+  const unknown = leftover.match(/[a-zA-Z]+/g);
+  if (unknown) {
+    return `"${format}" contains unknown tokens: ${unknown.join(", ")}`;
+  }
+
+  return null;
+}
+
+export function validateSource(raw: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!isPlainObject(raw)) {
+    return ["source definition must be an object"];
+  }
+
+  if (!isNonEmptyString(raw.name)) {
+    errors.push("name is required");
+  }
+
+  const urlError = validateHttpUrl(raw.url);
+  if (urlError) {
+    errors.push(`url ${urlError}`);
+  }
+
+  const isFeed = raw.feedUrl !== undefined;
+  if (isFeed) {
+    const feedUrlError = validateHttpUrl(raw.feedUrl);
+    if (feedUrlError) {
+      errors.push(`feedUrl ${feedUrlError}`);
+    }
+  }
+
+  const isSitemap = raw.sitemapUrl !== undefined;
+  if (isSitemap) {
+    const sitemapUrlError = validateHttpUrl(raw.sitemapUrl);
+    if (sitemapUrlError) {
+      errors.push(`sitemapUrl ${sitemapUrlError}`);
+    }
+    if (isFeed) {
+      errors.push("feedUrl and sitemapUrl cannot both be set");
+    }
+  }
+
+  if (raw.sitemapUrlPattern !== undefined) {
+    if (!isNonEmptyString(raw.sitemapUrlPattern)) {
+      errors.push("sitemapUrlPattern must be a non-empty string");
+    } else {
+      try {
+        new RegExp(raw.sitemapUrlPattern);
+      } catch (error) {
+        errors.push(
+          `sitemapUrlPattern is not a valid regular expression (${
+            error instanceof Error ? error.message : String(error)
+          })`
+        );
+      }
+    }
+  }
+
+  if (
+    raw.feedFullContent !== undefined &&
+    typeof raw.feedFullContent !== "boolean"
+  ) {
+    errors.push("feedFullContent must be a boolean");
+  }
+
+  if (raw.listingPath !== undefined && typeof raw.listingPath !== "string") {
+    errors.push("listingPath must be a string");
+  }
+
+  if (
+    raw.nextPageSelector !== undefined &&
+    !isNonEmptyString(raw.nextPageSelector)
+  ) {
+    errors.push("nextPageSelector must be a non-empty string");
+  }
+
+  if (
+    raw.nextPageLoadsInSamePage !== undefined &&
+    typeof raw.nextPageLoadsInSamePage !== "boolean"
+  ) {
+    errors.push("nextPageLoadsInSamePage must be a boolean");
+  }
+
+  if (raw.dateFormat !== undefined) {
+    if (!isNonEmptyString(raw.dateFormat)) {
+      errors.push("dateFormat must be a non-empty string");
+    } else {
+      const dateFormatError = validateDateFormat(raw.dateFormat);
+      if (dateFormatError) {
+        errors.push(`dateFormat ${dateFormatError}`);
+      }
+    }
+  }
+
+  if (
+    raw.contentExtraction !== undefined &&
+    !(CONTENT_EXTRACTION_MODES as readonly unknown[]).includes(
+      raw.contentExtraction
+    )
+  ) {
+    errors.push(
+      `contentExtraction must be one of: ${CONTENT_EXTRACTION_MODES.join(", ")}`
+    );
+  }
+
+  if (raw.language !== undefined && !isNonEmptyString(raw.language)) {
+    errors.push("language must be a non-empty string");
+  }
+
+  if (raw.icon !== undefined) {
+    if (isNonEmptyString(raw.icon) && /^[a-z][a-z\d+.-]*:/i.test(raw.icon)) {
+      const iconUrlError = validateHttpUrl(raw.icon);
+      if (iconUrlError) {
+        errors.push(`icon ${iconUrlError}`);
+      }
+    } else if (typeof raw.icon !== "string" || !EMOJI_ICON.test(raw.icon)) {
+      errors.push("icon must be a single emoji or an http(s) URL");
+    }
+  }
+
+  if (
+    raw.removeSelectors !== undefined &&
+    (!Array.isArray(raw.removeSelectors) ||
+      !raw.removeSelectors.every(isNonEmptyString))
+  ) {
+    errors.push("removeSelectors must be a list of non-empty strings");
+  }
+
+  if (
+    raw.concurrency !== undefined &&
+    (!Number.isInteger(raw.concurrency) || (raw.concurrency as number) < 1)
+  ) {
+    errors.push("concurrency must be a positive integer");
+  }
+
+  if (
+    raw.minDelay !== undefined &&
+    (typeof raw.minDelay !== "number" ||
+      !Number.isFinite(raw.minDelay) ||
+      raw.minDelay < 0)
+  ) {
+    errors.push("minDelay must be a non-negative number of milliseconds");
+  }
+
+  if (raw.adapter !== undefined) {
+    if (!isNonEmptyString(raw.adapter)) {
+      errors.push("adapter must be a non-empty string");
+    } else if (!hasAdapter(raw.adapter)) {
+      const available = getAdapterNames().join(", ");
+      errors.push(
+        `adapter "${raw.adapter}" is not registered (available: ${available})`
+      );
+    }
+  }
+
+  // Feed sources only need selectors when articles are scraped for full
+  // content, sitemap sources don't need a listing page selector
+  let requiredSelectors: readonly string[] = REQUIRED_SELECTORS;
+  if (isFeed) {
+    requiredSelectors =
+      raw.feedFullContent === true ? FEED_REQUIRED_SELECTORS : [];
+  } else if (isSitemap) {
+    requiredSelectors = REQUIRED_SELECTORS.filter(
+      (key) => key !== "articleLinks"
+    );
+  }
+  // Automatic extraction finds the article body without a content selector
+  if (raw.contentExtraction === "auto") {
+    requiredSelectors = requiredSelectors.filter((key) => key !== "content");
+  }
+
+  if (raw.selectors === undefined && requiredSelectors.length === 0) {
+    return errors;
+  }
+
+  if (!isPlainObject(raw.selectors)) {
+    errors.push("selectors is required");
+  } else {
+    const selectors = raw.selectors;
+    for (const key of SELECTOR_KEYS) {
+      if (requiredSelectors.includes(key)) {
+        if (!isNonEmptyString(selectors[key])) {
+          errors.push(`selectors.${key} is required`);
+        }
+      } else if (
+        selectors[key] !== undefined &&
+        !isNonEmptyString(selectors[key])
+      ) {
+        errors.push(`selectors.${key} must be a non-empty string`);
+      }
+    }
+    for (const key of Object.keys(selectors)) {
+      if (!(SELECTOR_KEYS as readonly string[]).includes(key)) {
+        errors.push(`selectors.${key} is not a known selector`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+function validateHttpUrl(value: unknown): string | null {
+  if (!isNonEmptyString(value)) return "is required";
+
+  try {
+    const { protocol } = new URL(value);
+    if (protocol !== "http:" && protocol !== "https:") {
+      return `must use http or https, got "${protocol}"`;
+    }
+  } catch {
+    return `"${value}" is not a valid URL`;
+  }
+  return null;
+}
+
+function toSource(raw: Record<string, unknown>): Source {
+  return {
+    ...(raw as unknown as Source),
+    listingPath: (raw.listingPath as string | undefined) ?? "",
+    // Selectors a source doesn't set are left empty and never queried
+    selectors: {
+      ...Object.fromEntries(
+        [...REQUIRED_SELECTORS, ...METADATA_SELECTORS].map((key) => [key, ""])
+      ),
+      ...(raw.selectors as Partial<SourceSelectors> | undefined),
+    } as SourceSelectors,
+    nextPageLoadsInSamePage:
+      (raw.nextPageLoadsInSamePage as boolean | undefined) ?? false,
+  };
+}
+
+function parseSourceFile(filePath: string): unknown[] {
+  const text = fs.readFileSync(filePath, "utf8");
+  const parsed =
+    path.extname(filePath) === ".json" ? JSON.parse(text) : YAML.parse(text);
+
+  if (Array.isArray(parsed)) return parsed;
+  if (isPlainObject(parsed) && Array.isArray(parsed.sources)) {
+    return parsed.sources;
+  }
+  return [parsed];
+}
+
+function listSourceFiles(sourcesPath: string): string[] {
+  const stats = fs.statSync(sourcesPath);
+  if (!stats.isDirectory()) return [sourcesPath];
+
+  return fs
+    .readdirSync(sourcesPath)
+    .filter((file) => SOURCE_FILE_EXTENSIONS.includes(path.extname(file)))
+    .sort()
+    .map((file) => path.join(sourcesPath, file));
+}
+
+export function loadSources(sourcesPath: string): SourceLoadResult {
+  const sources: Source[] = [];
+  const errors: string[] = [];
+  const seenNames = new Map<string, string>();
+
+  if (!fs.existsSync(sourcesPath)) {
+    return { sources, errors: [`Sources path not found: ${sourcesPath}`] };
+  }
+
+  for (const filePath of listSourceFiles(sourcesPath)) {
+    let definitions: unknown[];
+    try {
+      definitions = parseSourceFile(filePath);
+    } catch (error) {
+      errors.push(
+        `${filePath}: failed to parse (${
+          error instanceof Error ? error.message : String(error)
+        })`
+      );
+      continue;
+    }
+
+    definitions.forEach((raw, index) => {
+      const label =
+        isPlainObject(raw) && isNonEmptyString(raw.name)
+          ? `source "${raw.name}"`
+          : `source #${index + 1}`;
+      const sourceErrors = validateSource(raw);
+
+      if (sourceErrors.length === 0 && isPlainObject(raw)) {
+        const name = raw.name as string;
+        const previousFile = seenNames.get(name);
+        if (previousFile) {
+          sourceErrors.push(
+            `duplicate name, already defined in ${previousFile}`
+          );
+        } else {
+          seenNames.set(name, filePath);
+        }
+      }
+
+      if (sourceErrors.length > 0) {
+        errors.push(
+          `${filePath}: ${label} disabled: ${sourceErrors.join("; ")}`
+        );
+        return;
+      }
+
+      sources.push(toSource(raw as Record<string, unknown>));
+    });
+  }
+
+  return { sources, errors };
+}
@@ -1,5 +1,5 @@
 import { database } from "./database";
-import { crawlerJob, notionSyncJob } from "./jobs";
+import { crawlerJob, notionSyncJob, notionReconcileJob } from "./jobs";
 import { logger } from "./utils";
 import { config } from "./config";
 
@@ -19,6 +19,7 @@ class Application {
       // Start the cron jobs
       crawlerJob.start();
       notionSyncJob.start();
+      notionReconcileJob.start();
 
       // Setup graceful shutdown
       this.setupGracefulShutdown();
@@ -26,6 +27,9 @@ class Application {
       logger.info("Gaming News Crawler application started successfully");
       logger.info(`Crawler schedule: ${config.crawler.interval}`);
       logger.info(`Notion sync schedule: ${config.notionSync.interval}`);
+      logger.info(
+        `Notion reconcile schedule: ${config.notionReconcile.interval}`
+      );
 
       // Keep the process alive
       process.stdin.resume();
@@ -54,8 +58,22 @@ class Application {
       );
     }
 
+    config.notion.propertyErrors.forEach((propertyError) => {
+      errors.push(`Invalid Notion property mapping: ${propertyError}`);
+    });
+
+    config.sourceErrors.forEach((sourceError) => {
+      logger.warn(`Invalid source configuration: ${sourceError}`);
+    });
+
     if (config.sources.length === 0) {
-      errors.push("No news sources configured");
+      errors.push(`No valid news sources configured in ${config.sourcesPath}`);
+    } else {
+      logger.info(
+        `Loaded ${config.sources.length} source(s): ${config.sources
+          .map((source) => source.name)
+          .join(", ")}`
+      );
     }
 
     if (errors.length > 0) {
@@ -77,6 +95,7 @@ class Application {
         // Stop cron jobs
         crawlerJob.stop();
         notionSyncJob.stop();
+        notionReconcileJob.stop();
 
         // Wait for running jobs to complete (with timeout)
         const shutdownTimeout = setTimeout(() => {
@@ -85,7 +104,11 @@ class Application {
         }, 30000);
 
         // Wait for jobs to finish
-        while (crawlerJob.isJobRunning() || notionSyncJob.isJobRunning()) {
+        while (
+          crawlerJob.isJobRunning() ||
+          notionSyncJob.isJobRunning() ||
+          notionReconcileJob.isJobRunning()
+        ) {
           logger.info("Waiting for jobs to complete...");
           await new Promise((resolve) => setTimeout(resolve, 1000));
         }
@@ -112,6 +135,7 @@ class Application {
     try {
       logger.info("Running crawler once...");
       await database.connect();
+      this.validateConfig();
       await crawlerJob.runOnce();
     } catch (error) {
       logger.error("Failed to run crawler once:", error);
@@ -129,6 +153,17 @@ class Application {
       throw error;
     }
   }
+
+  public async runNotionReconcileOnce(): Promise<void> {
+    try {
+      logger.info("Running Notion reconcile once...");
+      await database.connect();
+      await notionReconcileJob.runOnce();
+    } catch (error) {
+      logger.error("Failed to run Notion reconcile once:", error);
+      throw error;
+    }
+  }
 }
 
 const app = new Application();
@@ -146,6 +181,11 @@ if (args.includes("--crawler-once")) {
     .runNotionSyncOnce()
     .then(() => process.exit(0))
     .catch(() => process.exit(1));
+} else if (args.includes("--notion-reconcile-once")) {
+  app
+    .runNotionReconcileOnce()
+    .then(() => process.exit(0))
+    .catch(() => process.exit(1));
 } else {
   // Start the full application
   app.start();
@@ -1,16 +1,110 @@
 import { CronJob } from "cron";
 import { database } from "../database";
-import { EntryModel } from "../models";
-import { WebScraper, logger } from "../utils";
-import { config } from "../config";
+import dayjs from "dayjs";
+import {
+  CrawlStateModel,
+  EntryModel,
+  IEntry,
+  IEntrySanitization,
+} from "../models";
+import { WebScraper, FeedReader, SitemapReader, logger } from "../utils";
+import type { ScrapedArticle } from "../utils/scraper";
+import { computeContentHash } from "../utils/contentHash";
+import { CrawlPool, HostLimits } from "../utils/crawlPool";
+import { isModifiedSince, selectSitemapEntries } from "../utils/sitemap";
+import { withPageContent } from "../utils/feed";
+import { syncPageCacheTtl } from "../utils/pageCache";
+import { sanitizeHtml } from "../utils/sanitizer";
+import {
+  SourceHealthMonitor,
+  createHealthRun,
+  recordArticleHits,
+} from "../utils/sourceHealth";
+import { config, Source } from "../config";
+import { resolveAdapter } from "../adapters";
+
+interface CrawlTotals {
+  processed: number;
+  saved: number;
+  updated: number;
+  disallowed: number; // Skipped because of robots.txt
+}
+
+// Politeness limits for a source's site, the crawler defaults unless the
+// source sets its own. A robots.txt Crawl-delay means one request at a
+// time, at least that far apart.
+const getHostLimits = (
+  source: Source,
+  crawlDelay: number | null
+): HostLimits => {
+  const concurrency = source.concurrency ?? config.crawler.hostConcurrency;
+  const minDelay = source.minDelay ?? config.crawler.hostMinDelay;
+  return crawlDelay === null
+    ? { concurrency, minDelay }
+    : { concurrency: 1, minDelay: Math.max(minDelay, crawlDelay) };
+};
+
+export interface SaveArticleOptions {
+  // Also take the author, tags and date from the article when they differ,
+  // e.g. when re-extracting after a selector fix. Crawls leave them as first
+  // stored.
+  updateMetadata?: boolean;
+}
+
+// Copies the author, tags and date that differ to the entry, returns whether
+// any did. A date the page didn't provide is left alone.
+const applyMetadata = (entry: IEntry, article: ScrapedArticle): boolean => {
+  let changed = false;
+  if ((entry.author ?? "") !== article.author) {
+    entry.author = article.author;
+    changed = true;
+  }
+  if ((entry.tags ?? []).join("\n") !== article.tags.join("\n")) {
+    entry.tags = article.tags;
+    changed = true;
+  }
+  if (
+    !article.dateMissing &&
+    entry.entryDate?.getTime() !== article.date.getTime()
+  ) {
+    entry.entryDate = article.date;
+    changed = true;
+  }
+  return changed;
+};
+
+interface DiscoveredArticles {
+  links: string[];
+  feedArticles: Map<string, ScrapedArticle>;
+  lastmods: Map<string, Date>; // Sitemap lastmod of the links that have one
+  modifiedLinks: Set<string>; // Dated by the sitemap after the last crawl
+  crawledUntil: Date;
+}
+
+// The crawl only counts as done up to the oldest article that failed, so
+// the next run picks it up again
+const getCrawledUntil = (
+  discovered: DiscoveredArticles,
+  failedLinks: string[]
+): Date =>
+  failedLinks.reduce((until, link) => {
+    const lastmod = discovered.lastmods.get(link);
+    return lastmod && lastmod < until ? lastmod : until;
+  }, discovered.crawledUntil);
 
 export class CrawlerJob {
   private job: CronJob | null = null;
   private scraper: WebScraper;
+  private feedReader: FeedReader;
+  private sitemapReader: SitemapReader;
+  private healthMonitor: SourceHealthMonitor;
   private isRunning: boolean = false;
 
   constructor() {
     this.scraper = new WebScraper();
+    this.feedReader = new FeedReader();
+    this.sitemapReader = new SitemapReader();
+    this.healthMonitor = new SourceHealthMonitor();
   }
 
   public start(): void {
@@ -60,83 +154,27 @@ export class CrawlerJob {
       if (!database.isConnectedToDb()) {
         await database.connect();
       }
-
-      let totalProcessed = 0;
-      let totalSaved = 0;
-
-      // Process each source
-      for (const source of config.sources) {
-        try {
-          logger.info(`Processing source: ${source.name}`);
-
-          // Get article links
-          const articleLinks = await this.scraper.getArticleLinks(
-            source.url,
-            source.listingPath,
-            source.selectors.articleLinks,
-            source.nextPageSelector,
-            source.nextPageLoadsInSamePage
-          );
-
-          logger.info(`Found ${articleLinks.length} links for ${source.name}`);
-
-          // Process each article
-          for (const link of articleLinks) {
-            try {
-              totalProcessed++;
-
-              // Scrape article content
-              const articleData = await this.scraper.scrapeArticle(
-                link,
-                source
-              );
-
-              if (!articleData || !articleData.content) {
-                logger.warn(`Failed to scrape article: ${link}`);
-                continue;
-              }
-
-              // Check if article already exists
-              const { entryId } = articleData;
-              const existingEntry = await EntryModel.findOne({ entryId });
-
-              if (existingEntry) {
-                logger.debug(`Article already exists: ${link}`);
-                continue;
-              }
-
-              // Create and save entry
-              const newEntry = new EntryModel({
-                entryId,
-                title: articleData.title,
-                author: articleData.author,
-                summary: articleData.summary,
-                content: articleData.content,
-                link: articleData.link,
-                created: false,
-                entryErrors: [],
-                entryDate: articleData.date,
-              });
-
-              await newEntry.save();
-              totalSaved++;
-
-              logger.info(`Saved new article: ${articleData.title}`);
-
-              // Add a small delay to avoid overwhelming the servers
-              await new Promise((resolve) => setTimeout(resolve, 1000));
-            } catch (error) {
-              logger.error(`Error processing article ${link}:`, error);
-            }
-          }
-        } catch (error) {
-          logger.error(`Error processing source ${source.name}:`, error);
-        }
+      if (config.crawler.cachePages) {
+        await syncPageCacheTtl();
       }
 
+      const totals: CrawlTotals = {
+        processed: 0,
+        saved: 0,
+        updated: 0,
+        disallowed: 0,
+      };
+      const pool = new CrawlPool(config.crawler.concurrency);
+
+      // Sources are crawled in parallel, the pool keeps each site's traffic
+      // within its limits
+      await Promise.all(
+        config.sources.map((source) => this.crawlSource(source, pool, totals))
+      );
+
       const duration = Date.now() - startTime;
       logger.info(
-        `Crawler run completed. Processed: ${totalProcessed}, Saved: ${totalSaved}, Duration: ${duration}ms`
+        `Crawler run completed. Processed: ${totals.processed}, Saved: ${totals.saved}, Updated: ${totals.updated}, Disallowed: ${totals.disallowed}, Duration: ${duration}ms`
       );
 
       // Close the browser
@@ -148,6 +186,352 @@ export class CrawlerJob {
     }
   }
 
+  private async crawlSource(
+    source: Source,
+    pool: CrawlPool,
+    totals: CrawlTotals
+  ): Promise<void> {
+    try {
+      logger.info(`Processing source: ${source.name}`);
+
+      const adapter = resolveAdapter(source.adapter);
+      const limits = getHostLimits(
+        source,
+        await this.scraper.getCrawlDelay(source.url)
+      );
+
+      // Get article links
+      const discovered = await pool.run(source.url, limits, () =>
+        this.discoverArticles(source)
+      );
+      const healthRun = createHealthRun(source, discovered.links.length);
+      const candidateLinks = discovered.links.filter((link) =>
+        adapter.filterLink(link, source)
+      );
+
+      // Skip articles we already have before downloading them, except
+      // recent ones that are re-checked for edits and ones the sitemap
+      // reports as modified
+      const settledLinks = new Set(
+        await this.findSettledLinks(
+          candidateLinks.filter((link) => !discovered.modifiedLinks.has(link))
+        )
+      );
+      const unsettledLinks = candidateLinks.filter(
+        (link) => !settledLinks.has(link)
+      );
+
+      // Pages robots.txt disallows are never requested. Feed items keep
+      // their feed content when their page can't be scraped.
+      const disallowedLinks = await this.findDisallowedLinks(
+        unsettledLinks.filter((link) => !discovered.feedArticles.has(link))
+      );
+      if (disallowedLinks.size > 0) {
+        totals.disallowed += disallowedLinks.size;
+        const skipped = [...disallowedLinks].join(", ");
+        logger.warn(
+          `Skipping ${source.name} articles disallowed by robots.txt: ${skipped}`
+        );
+      }
+      const articleLinks = unsettledLinks.filter(
+        (link) => !disallowedLinks.has(link)
+      );
+
+      logger.info(
+        `Found ${candidateLinks.length} links for ${source.name}, ${articleLinks.length} to scrape`
+      );
+
+      const failedLinks: string[] = [];
+      await Promise.all(
+        articleLinks.map(async (link) => {
+          try {
+            totals.processed++;
+
+            // Scrape article content, or take it from the feed
+            const feedArticle = discovered.feedArticles.get(link);
+            const scrapedArticle =
+              feedArticle && !source.feedFullContent
+                ? feedArticle
+                : await pool.run(link, limits, () =>
+                    feedArticle
+                      ? this.completeFeedArticle(feedArticle, source)
+                      : this.scraper.scrapeArticle(link, source)
+                  );
+            if (scrapedArticle) {
+              recordArticleHits(healthRun, scrapedArticle);
+            }
+
+            if (!scrapedArticle || !scrapedArticle.content) {
+              logger.warn(`Failed to scrape article: ${link}`);
+              failedLinks.push(link);
+              return;
+            }
+
+            // Stored articles whose page answered 304 have nothing to update
+            if (
+              scrapedArticle.notModified &&
+              (await EntryModel.exists({ entryId: scrapedArticle.entryId }))
+            ) {
+              logger.debug(`Article not modified: ${link}`);
+              return;
+            }
+
+            const result = await this.saveArticle(scrapedArticle, source);
+            if (result === "saved") totals.saved++;
+            if (result === "updated") totals.updated++;
+          } catch (error) {
+            logger.error(`Error processing article ${link}:`, error);
+            failedLinks.push(link);
+          }
+        })
+      );
+
+      await CrawlStateModel.updateOne(
+        { source: source.name },
+        { lastSuccessfulCrawlAt: getCrawledUntil(discovered, failedLinks) },
+        { upsert: true }
+      );
+      await this.healthMonitor.recordRun(source, healthRun);
+    } catch (error) {
+      logger.error(`Error processing source ${source.name}:`, error);
+    }
+  }
+
+  // Stores a scraped article as a new entry or as an edit of its entry, also
+  // used to apply articles re-extracted from the page cache
+  public async saveArticle(
+    scrapedArticle: ScrapedArticle,
+    source: Source,
+    options: SaveArticleOptions = {}
+  ): Promise<"saved" | "updated" | null> {
+    const { link } = scrapedArticle;
+
+    // Clean the HTML before it's hashed and stored
+    const { html: content, report: sanitization } = sanitizeHtml(
+      scrapedArticle.content,
+      {
+        baseUrl: link,
+        removeSelectors: source.removeSelectors,
+      }
+    );
+    if (!content) {
+      logger.warn(`No content left after sanitizing article: ${link}`);
+      return null;
+    }
+    const articleData = { ...scrapedArticle, content };
+
+    // Check if article already exists
+    const { entryId } = articleData;
+    const contentHash = computeContentHash(articleData);
+    const existingEntry = await EntryModel.findOne({ entryId });
+
+    if (existingEntry) {
+      const updated = await this.applyArticleUpdate(
+        existingEntry,
+        articleData,
+        contentHash,
+        sanitization,
+        options
+      );
+      return updated ? "updated" : null;
+    }
+
+    // Create and save entry
+    const newEntry = new EntryModel({
+      entryId,
+      title: articleData.title,
+      author: articleData.author,
+      summary: articleData.summary,
+      content: articleData.content,
+      link: articleData.link,
+      entryErrors: [],
+      entryDate: articleData.date,
+      source: source.name,
+      language: source.language,
+      tags: articleData.tags,
+      leadImage: articleData.leadImage,
+      contentHash,
+      contentConfidence: articleData.contentConfidence,
+      sanitization,
+    });
+
+    await newEntry.save();
+    logger.info(`Saved new article: ${articleData.title}`);
+    return "saved";
+  }
+
+  private async findDisallowedLinks(links: string[]): Promise<Set<string>> {
+    const disallowed = new Set<string>();
+    for (const link of links) {
+      // A link that can't be checked is skipped, not the whole source
+      try {
+        if (!(await this.scraper.isAllowedByRobots(link))) {
+          disallowed.add(link);
+        }
+      } catch (error) {
+        logger.warn(`Failed to check robots.txt for ${link}:`, error);
+        disallowed.add(link);
+      }
+    }
+    return disallowed;
+  }
+
+  private async findKnownLinks(links: string[]): Promise<string[]> {
+    if (links.length === 0) return [];
+    return EntryModel.distinct("link", { link: { $in: links } });
+  }
+
+  // Known links that are past the revisit window and don't need re-scraping
+  private async findSettledLinks(links: string[]): Promise<string[]> {
+    if (links.length === 0) return [];
+    const revisitSince = dayjs()
+      .subtract(config.crawler.revisitDays, "day")
+      .toDate();
+    return EntryModel.distinct("link", {
+      link: { $in: links },
+      entryDate: { $lt: revisitSince },
+    });
+  }
+
+  private async applyArticleUpdate(
+    entry: IEntry,
+    articleData: ScrapedArticle,
+    contentHash: string,
+    sanitization: IEntrySanitization,
+    options: SaveArticleOptions = {}
+  ): Promise<boolean> {
+    const metadataChanged =
+      options.updateMetadata === true && applyMetadata(entry, articleData);
+
+    // Hashed again rather than read from contentHash, so entries stored
+    // before a change to the hashing aren't all seen as edited
+    const previousHash = computeContentHash(entry);
+    const contentChanged = previousHash !== contentHash;
+    if (!contentChanged && !metadataChanged) {
+      logger.debug(`Article already exists: ${articleData.link}`);
+      return false;
+    }
+
+    if (contentChanged) {
+      // Keep the previous version before overwriting it. At least one is
+      // kept, it marks the entry as edited.
+      const maxRevisions = Math.max(1, config.crawler.maxRevisions);
+      const revisions = [
+        ...(entry.revisions ?? []),
+        {
+          title: entry.title,
+          summary: entry.summary,
+          content: entry.content,
+          contentHash: previousHash,
+          capturedAt: new Date(),
+        },
+      ];
+      entry.revisions = revisions.slice(-maxRevisions);
+
+      entry.title = articleData.title;
+      entry.summary = articleData.summary;
+      entry.content = articleData.content;
+      entry.leadImage = articleData.leadImage ?? entry.leadImage;
+      entry.contentHash = contentHash;
+      entry.contentConfidence = articleData.contentConfidence;
+      entry.sanitization = sanitization;
+    }
+    if (entry.notionPageId) {
+      entry.needsNotionUpdate = true;
+    }
+
+    await entry.save();
+    logger.info(`Updated changed article: ${articleData.title}`);
+    return true;
+  }
+
+  private async discoverArticles(source: Source): Promise<DiscoveredArticles> {
+    const crawledUntil = new Date();
+
+    // Feed sources list their articles from the feed instead of a listing page
+    if (source.feedUrl) {
+      const feedArticles = await this.feedReader.getFeedArticles(source);
+      return {
+        links: feedArticles.map((article) => article.link),
+        feedArticles: new Map(
+          feedArticles.map((article) => [article.link, article])
+        ),
+        lastmods: new Map(),
+        modifiedLinks: new Set(),
+        crawledUntil,
+      };
+    }
+
+    // Sitemap sources only fetch entries modified since the last crawl
+    if (source.sitemapUrl) {
+      const state = await CrawlStateModel.findOne({ source: source.name });
+      const since = state?.lastSuccessfulCrawlAt ?? null;
+      const entries = await this.sitemapReader.getEntries(source, since);
+      const locs = entries.map((entry) => entry.loc);
+      const selection = selectSitemapEntries(
+        entries,
+        since,
+        {
+          known: new Set(await this.findKnownLinks(locs)),
+          settled: new Set(await this.findSettledLinks(locs)),
+        },
+        config.crawler.maxArticlesPerRun
+      );
+
+      // When dated entries were left out, resume from the newest one crawled
+      return {
+        links: selection.entries.map((entry) => entry.loc),
+        feedArticles: new Map(),
+        lastmods: new Map(
+          selection.entries.flatMap((entry) =>
+            entry.lastmod ? [[entry.loc, entry.lastmod]] : []
+          )
+        ),
+        modifiedLinks: new Set(
+          selection.entries
+            .filter((entry) => isModifiedSince(entry, since))
+            .map((entry) => entry.loc)
+        ),
+        crawledUntil: selection.resumeFrom ?? crawledUntil,
+      };
+    }
+
+    const links = await this.scraper.getArticleLinks(
+      source.url,
+      source.listingPath,
+      source.selectors.articleLinks,
+      source.nextPageSelector,
+      source.nextPageLoadsInSamePage,
+      (pageLinks) => this.findKnownLinks(pageLinks)
+    );
+    return {
+      links,
+      feedArticles: new Map(),
+      lastmods: new Map(),
+      modifiedLinks: new Set(),
+      crawledUntil,
+    };
+  }
+
+  private async completeFeedArticle(
+    feedArticle: ScrapedArticle,
+    source: Source
+  ): Promise<ScrapedArticle> {
+    if (!source.feedFullContent) {
+      return feedArticle;
+    }
+
+    const scraped = await this.scraper.scrapeArticle(feedArticle.link, source);
+    if (!scraped || !scraped.content) {
+      logger.warn(
+        `Failed to scrape full content, using feed content: ${feedArticle.link}`
+      );
+      return { ...feedArticle, selectorHits: scraped?.selectorHits };
+    }
+
+    return withPageContent(feedArticle, scraped);
+  }
+
   public isJobRunning(): boolean {
     return this.isRunning;
   }
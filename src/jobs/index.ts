@@ -1,2 +1,3 @@
 export { CrawlerJob, crawlerJob } from "./crawler";
 export { NotionSyncJob, notionSyncJob } from "./notionSync";
+export { NotionReconcileJob, notionReconcileJob } from "./notionReconcile";
@@ -0,0 +1,207 @@
+import { CronJob } from "cron";
+import { database } from "../database";
+import { EntryModel } from "../models";
+import { NotionClient, logger } from "../utils";
+import type { NotionDatabasePage } from "../utils/notion";
+import { config } from "../config";
+import { requeueEntry } from "../utils/syncState";
+
+export interface ReconcileReport {
+  missing: string[]; // entryIds whose Notion page was archived or deleted
+  relinked: string[]; // entryIds matched to an existing page by link
+  orphans: string[]; // URLs of pages with no matching entry
+}
+
+export class NotionReconcileJob {
+  private job: CronJob | null = null;
+  private notionClient: NotionClient;
+  private isRunning: boolean = false;
+
+  constructor() {
+    this.notionClient = new NotionClient();
+  }
+
+  public start(): void {
+    if (this.job) {
+      logger.warn("Notion reconcile job is already started");
+      return;
+    }
+
+    this.job = new CronJob(
+      config.notionReconcile.interval,
+      async () => {
+        await this.runReconcile();
+      },
+      null,
+      true,
+      "America/New_York"
+    );
+
+    logger.info(
+      `Notion reconcile job started with schedule: ${config.notionReconcile.interval}`
+    );
+  }
+
+  public stop(): void {
+    if (this.job) {
+      this.job.stop();
+      this.job = null;
+      logger.info("Notion reconcile job stopped");
+    }
+  }
+
+  public async runOnce(): Promise<ReconcileReport | null> {
+    return this.runReconcile();
+  }
+
+  private async runReconcile(): Promise<ReconcileReport | null> {
+    if (this.isRunning) {
+      logger.warn(
+        "Notion reconcile is already running, skipping this iteration"
+      );
+      return null;
+    }
+
+    this.isRunning = true;
+    const startTime = Date.now();
+    const { repair } = config.notionReconcile;
+
+    try {
+      const mode = repair ? "repair" : "report only";
+      logger.info(`Starting Notion reconcile run (${mode})...`);
+
+      // Ensure database connection
+      if (!database.isConnectedToDb()) {
+        await database.connect();
+      }
+
+      // Test Notion connection
+      const isNotionConnected = await this.notionClient.testConnection();
+      if (!isNotionConnected) {
+        logger.error("Notion connection failed, skipping reconcile");
+        return null;
+      }
+
+      const report: ReconcileReport = {
+        missing: [],
+        relinked: [],
+        orphans: [],
+      };
+      const pages = await this.notionClient.listDatabasePages();
+      const livePageIds = new Set(pages.map((page) => page.id));
+
+      logger.info(`Found ${pages.length} pages in the Notion database`);
+
+      // Entries whose page no longer exists in the database. Only the fields
+      // needed to check them are loaded, one at a time.
+      const syncedEntries = EntryModel.find({
+        notionPageId: { $exists: true, $ne: null },
+      })
+        .select("entryId link notionPageId notionUrl")
+        .lean()
+        .cursor();
+      const linkedPageIds = new Set<string>();
+
+      for await (const entry of syncedEntries) {
+        const pageId = entry.notionPageId as string;
+        linkedPageIds.add(pageId);
+        if (livePageIds.has(pageId)) continue;
+
+        // Double-check pages missing from the query before acting on them
+        if (await this.notionClient.isPageLive(pageId)) continue;
+
+        report.missing.push(entry.entryId);
+        const pageRef = entry.notionUrl ?? pageId;
+        logger.warn(
+          `Notion page missing for entry ${entry.entryId}: ${pageRef}`
+        );
+
+        if (repair) {
+          // Queue the entry so the next sync re-creates its page
+          const fullEntry = await EntryModel.findById(entry._id);
+          if (!fullEntry) continue;
+          requeueEntry(fullEntry);
+          fullEntry.notionPageId = undefined;
+          fullEntry.notionUrl = undefined;
+          fullEntry.needsNotionUpdate = false;
+          await fullEntry.save();
+        }
+      }
+
+      // Pages that no entry points to: either created before page IDs were
+      // stored, or added to the database manually. Pages sharing a link are
+      // matched together, the oldest is linked and the rest are duplicates.
+      const unlinkedPages = new Map<string, NotionDatabasePage[]>();
+      for (const page of pages) {
+        if (linkedPageIds.has(page.id)) continue;
+        if (!page.link) {
+          report.orphans.push(page.url);
+          logger.warn(`Orphan Notion page with no link: ${page.url}`);
+          continue;
+        }
+        unlinkedPages.set(page.link, [
+          ...(unlinkedPages.get(page.link) ?? []),
+          page,
+        ]);
+      }
+
+      for (const [link, linkPages] of unlinkedPages) {
+        const [page, ...duplicates] = [...linkPages].sort((a, b) =>
+          a.createdTime.localeCompare(b.createdTime)
+        );
+        const entry = await EntryModel.findOne({ link, notionPageId: null });
+
+        if (!entry) {
+          for (const orphan of linkPages) {
+            report.orphans.push(orphan.url);
+            logger.warn(
+              `Orphan Notion page with no matching entry: ${orphan.url}`
+            );
+          }
+          continue;
+        }
+
+        report.relinked.push(entry.entryId);
+        logger.info(
+          `Matched Notion page ${page.url} to entry ${entry.entryId}`
+        );
+        for (const duplicate of duplicates) {
+          report.orphans.push(duplicate.url);
+          logger.warn(
+            `Duplicate Notion page for entry ${entry.entryId}: ${duplicate.url}`
+          );
+        }
+
+        if (repair) {
+          entry.syncStatus = "synced";
+          entry.notionPageId = page.id;
+          entry.notionUrl = page.url;
+          await entry.save();
+        }
+      }
+
+      const duration = Date.now() - startTime;
+      logger.info(
+        `Notion reconcile completed. Missing: ${report.missing.length}, Relinked: ${report.relinked.length}, Orphans: ${report.orphans.length}, Duration: ${duration}ms`
+      );
+
+      return report;
+    } catch (error) {
+      logger.error("Notion reconcile run failed:", error);
+      return null;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  public isJobRunning(): boolean {
+    return this.isRunning;
+  }
+
+  public getNextRun(): Date | null {
+    return this.job ? this.job.nextDate().toJSDate() : null;
+  }
+}
+
+// Export singleton instance
+export const notionReconcileJob = new NotionReconcileJob();
@@ -1,8 +1,20 @@
 import { CronJob } from "cron";
 import { database } from "../database";
-import { EntryModel } from "../models";
+import { EntryModel, IEntry } from "../models";
 import { NotionClient, logger } from "../utils";
+import type { NotionBodyResult, NotionPageRef } from "../utils/notion";
 import { config } from "../config";
+import type { mongo } from "mongoose";
+import {
+  LegacyEntry,
+  dueForAttempt,
+  legacySyncStatus,
+  markSyncFailure,
+  markSynced,
+} from "../utils/syncState";
+
+// Legacy entries updated per bulk write
+const MIGRATION_BATCH_SIZE = 500;
 
 export class NotionSyncJob {
   private job: CronJob | null = null;
@@ -68,9 +80,26 @@ export class NotionSyncJob {
         return;
       }
 
-      // Get entries that haven't been created in Notion yet
+      // Writing pages against a mismatched schema would fail for every entry
+      const schemaIssues = await this.notionClient.validateDatabaseSchema();
+      if (schemaIssues.length > 0) {
+        schemaIssues.forEach(({ property, expected, actual }) => {
+          const found = actual ? `"${actual}"` : "nothing";
+          logger.error(
+            `Notion property "${property}" should be "${expected}", found ${found}`
+          );
+        });
+        logger.error("Notion database schema mismatch, skipping sync");
+        return;
+      }
+
+      await this.migrateLegacyEntries();
+
+      // Get entries without a page that are due for an attempt
       const entriesToSync = await EntryModel.find({
-        created: false,
+        syncStatus: { $in: ["pending", "retrying"] },
+        notionPageId: null,
+        ...dueForAttempt(),
       })
         .sort({ entryDate: -1 })
         .limit(config.notionSync.batchSize);
@@ -79,71 +108,93 @@ export class NotionSyncJob {
 
       let totalSynced = 0;
       let totalErrors = 0;
+      let rateLimited = false;
+      const pagesByLink = new Map<string, NotionPageRef | null>();
 
       // Process each entry
       for (const entry of entriesToSync) {
         try {
           logger.debug(`Syncing entry to Notion: ${entry.title}`);
 
-          const success = await this.notionClient.createPage(entry);
-
-          if (success) {
-            // Mark as created
-            entry.created = true;
-            entry.entryErrors = [];
-            await entry.save();
-            totalSynced++;
-
-            logger.info(`Successfully synced to Notion: ${entry.title}`);
-          } else {
-            // Add error and increment retry count
-            const errorMsg = `Failed to create Notion page at ${new Date().toISOString()}`;
-            entry.entryErrors = entry.entryErrors || [];
-            entry.entryErrors.push(errorMsg);
-
-            // If too many errors, mark as created to avoid infinite retries
-            if (entry.entryErrors.length >= 5) {
-              entry.created = true;
-              logger.error(
-                `Entry has too many errors, marking as created: ${entry.entryId}`
-              );
-            }
-
-            await entry.save();
-            totalErrors++;
+          // A previous run may have created the page without saving the
+          // entry, so adopt an existing page before creating a new one
+          const existingPage = await this.findExistingPage(
+            entry.link,
+            pagesByLink
+          );
+          const createdPage = existingPage
+            ? null
+            : await this.notionClient.createPage(entry);
+          const page = existingPage ?? createdPage;
+
+          if (!page) {
+            throw new Error("Notion page could not be created");
+          }
+
+          markSynced(entry);
+          entry.notionPageId = page.id;
+          entry.notionUrl = page.url;
+          pagesByLink.set(entry.link, page);
+          if (createdPage) {
+            this.recordBody(entry, createdPage.body);
+            // Rewrite the body in the update pass when appending failed
+            entry.needsNotionUpdate = !createdPage.body.complete;
           }
+          await entry.save();
+          totalSynced++;
 
-          // Add a small delay to respect Notion rate limits
-          await new Promise((resolve) => setTimeout(resolve, 1000));
+          logger.info(`Successfully synced to Notion: ${entry.title}`);
         } catch (error) {
-          logger.error(
-            `Error syncing entry ${entry.entryId} to Notion:`,
-            error
-          );
+          totalErrors++;
+          rateLimited = await this.recordFailure(entry, error, "sync");
+          if (rateLimited) break;
+        }
+      }
+
+      // Propagate edits detected by the crawler to existing pages
+      const entriesToUpdate = rateLimited
+        ? []
+        : await EntryModel.find({
+            needsNotionUpdate: true,
+            notionPageId: { $exists: true, $ne: null },
+            syncStatus: { $in: ["pending", "synced", "retrying"] },
+            ...dueForAttempt(),
+          })
+            .sort({ entryDate: -1 })
+            .limit(config.notionSync.batchSize);
+
+      logger.info(
+        `Found ${entriesToUpdate.length} entries to update in Notion`
+      );
+
+      let totalUpdated = 0;
 
-          // Add error to entry
-          const errorMsg = `Sync error: ${
-            error instanceof Error ? error.message : "Unknown error"
-          }`;
-          entry.entryErrors = entry.entryErrors || [];
-          entry.entryErrors.push(errorMsg);
-
-          // If too many errors, mark as created to avoid infinite retries
-          if (entry.entryErrors.length >= 5) {
-            entry.created = true;
-            logger.error(
-              `Entry has too many errors, marking as created: ${entry.entryId}`
-            );
+      for (const entry of entriesToUpdate) {
+        try {
+          logger.debug(`Updating Notion page for entry: ${entry.title}`);
+
+          const body = await this.notionClient.updatePage(entry);
+          if (!body) {
+            throw new Error("Notion page could not be updated");
           }
 
+          this.recordBody(entry, body);
+          markSynced(entry);
+          // Rewrite the body again on the next pass when appending failed
+          entry.needsNotionUpdate = !body.complete;
           await entry.save();
+          totalUpdated++;
+
+          logger.info(`Successfully updated in Notion: ${entry.title}`);
+        } catch (error) {
           totalErrors++;
+          if (await this.recordFailure(entry, error, "update")) break;
         }
       }
 
       const duration = Date.now() - startTime;
       logger.info(
-        `Notion sync completed. Synced: ${totalSynced}, Errors: ${totalErrors}, Duration: ${duration}ms`
+        `Notion sync completed. Synced: ${totalSynced}, Updated: ${totalUpdated}, Errors: ${totalErrors}, Duration: ${duration}ms`
       );
     } catch (error) {
       logger.error("Notion sync run failed:", error);
@@ -152,6 +203,99 @@ export class NotionSyncJob {
     }
   }
 
+  private async findExistingPage(
+    link: string,
+    pagesByLink: Map<string, NotionPageRef | null>
+  ): Promise<NotionPageRef | null> {
+    if (!pagesByLink.has(link)) {
+      pagesByLink.set(link, await this.notionClient.findPageByLink(link));
+    }
+
+    const page = pagesByLink.get(link) ?? null;
+    if (page) {
+      logger.info(`Found existing Notion page for ${link}, reusing it`);
+    }
+    return page;
+  }
+
+  private recordBody(entry: IEntry, body: NotionBodyResult): void {
+    entry.notionDroppedBlocks = body.droppedBlocks;
+    if (body.droppedBlocks > 0) {
+      logger.warn(
+        `${body.droppedBlocks} nested blocks did not fit in the Notion page for entry: ${entry.entryId}`
+      );
+    }
+  }
+
+  // Moves the entry to retrying or failed. Returns true when Notion rate
+  // limited the request, in which case the rest of the run is skipped.
+  private async recordFailure(
+    entry: IEntry,
+    error: unknown,
+    action: "sync" | "update"
+  ): Promise<boolean> {
+    const kind = markSyncFailure(entry, error);
+    await entry.save();
+
+    const message = error instanceof Error ? error.message : String(error);
+    if (entry.syncStatus === "failed") {
+      logger.error(
+        `Giving up on Notion ${action} for entry ${entry.entryId} after ${entry.syncAttempts} attempt(s) (${kind}): ${message}`
+      );
+    } else {
+      logger.warn(
+        `Notion ${action} failed for entry ${
+          entry.entryId
+        } (${kind}), retrying at ${entry.nextAttemptAt?.toISOString()}: ${message}`
+      );
+    }
+
+    if (kind === "rate_limit") {
+      logger.warn("Rate limited by Notion, stopping this sync run");
+      return true;
+    }
+    return false;
+  }
+
+  // Entries stored before sync statuses existed only have a created flag,
+  // which was also set on entries that gave up after too many errors, see
+  // legacySyncStatus
+  private async migrateLegacyEntries(): Promise<void> {
+    // A legacy entry saved through the model since, e.g. when the crawler
+    // revisited it, got the schema's "pending" default but kept `created`
+    const legacy = {
+      $or: [{ syncStatus: { $exists: false } }, { created: { $exists: true } }],
+    };
+    const count = await EntryModel.countDocuments(legacy);
+    if (count === 0) return;
+
+    // `created` is no longer in the schema, read it from the raw documents
+    const cursor = EntryModel.collection.find<
+      LegacyEntry & { _id: mongo.ObjectId }
+    >(legacy, { projection: { notionPageId: 1, created: 1, entryErrors: 1 } });
+    let updates: mongo.AnyBulkWriteOperation[] = [];
+    for await (const entry of cursor) {
+      updates.push({
+        updateOne: {
+          filter: { _id: entry._id },
+          update: {
+            $set: { syncStatus: legacySyncStatus(entry) },
+            $unset: { created: 1 },
+          },
+        },
+      });
+      if (updates.length >= MIGRATION_BATCH_SIZE) {
+        await EntryModel.collection.bulkWrite(updates);
+        updates = [];
+      }
+    }
+    if (updates.length > 0) {
+      await EntryModel.collection.bulkWrite(updates);
+    }
+
+    logger.info(`Migrated ${count} entries to sync statuses`);
+  }
+
   public isJobRunning(): boolean {
     return this.isRunning;
   }
@@ -0,0 +1,6 @@
+import { Document } from "mongoose";
+
+export interface ICrawlState extends Document {
+  source: string;
+  lastSuccessfulCrawlAt?: Date;
+}
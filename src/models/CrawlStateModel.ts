@@ -0,0 +1,22 @@
+import mongoose, { Schema } from "mongoose";
+import { ICrawlState } from "./CrawlState";
+
+const CrawlStateSchema: Schema = new Schema(
+  {
+    source: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    lastSuccessfulCrawlAt: {
+      type: Date,
+      required: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export default mongoose.model<ICrawlState>("CrawlState", CrawlStateSchema);
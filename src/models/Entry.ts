@@ -1,5 +1,37 @@
 import { Document } from "mongoose";
 
+export interface IEntryRevision {
+  title?: string;
+  summary?: string;
+  content: string;
+  contentHash: string;
+  capturedAt: Date;
+}
+
+// What the sanitizer removed from the scraped HTML, counted by tag,
+// attribute and source remove selector
+export interface IEntrySanitization {
+  elements: Record<string, number>;
+  attributes: Record<string, number>;
+  selectors: Record<string, number>;
+}
+
+// Where an entry stands in the Notion sync:
+// - pending: its page has to be created, or updated when it has one
+// - synced: the page is up to date, unless needsNotionUpdate is set
+// - retrying: the last attempt failed, tried again from nextAttemptAt
+// - failed: gave up after a rejected request or too many attempts
+// - skipped: left out of the sync by hand
+export type EntrySyncStatus =
+  | "pending"
+  | "synced"
+  | "retrying"
+  | "failed"
+  | "skipped";
+
+// Rejected requests fail right away, the others are retried with backoff
+export type SyncErrorKind = "validation" | "rate_limit" | "transient";
+
 export interface IEntry extends Document {
   entryId: string;
   title?: string;
@@ -7,7 +39,22 @@ export interface IEntry extends Document {
   summary?: string;
   content: string;
   link: string;
-  created?: boolean;
+  syncStatus: EntrySyncStatus;
+  syncAttempts?: number; // Failed attempts since the last success
+  nextAttemptAt?: Date; // When a retrying entry is due
+  syncErrorKind?: SyncErrorKind; // Kind of the last sync error
   entryErrors?: string[];
   entryDate: Date;
+  source?: string;
+  language?: string;
+  tags?: string[];
+  leadImage?: string; // Page cover image URL
+  contentHash?: string;
+  contentConfidence?: number; // 0 to 1, set when the body was auto-extracted
+  sanitization?: IEntrySanitization;
+  revisions?: IEntryRevision[];
+  notionPageId?: string;
+  notionUrl?: string;
+  needsNotionUpdate?: boolean;
+  notionDroppedBlocks?: number; // Content blocks that couldn't be written
 }
@@ -1,6 +1,27 @@
 import mongoose, { Schema } from "mongoose";
 import { IEntry } from "./Entry";
 
+const EntryRevisionSchema: Schema = new Schema(
+  {
+    title: String,
+    summary: String,
+    content: {
+      type: String,
+      required: true,
+    },
+    contentHash: {
+      type: String,
+      required: true,
+    },
+    capturedAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
 const EntrySchema: Schema = new Schema(
   {
     entryId: {
@@ -30,9 +51,23 @@ const EntrySchema: Schema = new Schema(
       required: true,
       unique: true,
     },
-    created: {
-      type: Boolean,
-      default: false,
+    syncStatus: {
+      type: String,
+      enum: ["pending", "synced", "retrying", "failed", "skipped"],
+      default: "pending",
+    },
+    syncAttempts: {
+      type: Number,
+      default: 0,
+    },
+    nextAttemptAt: {
+      type: Date,
+      required: false,
+    },
+    syncErrorKind: {
+      type: String,
+      enum: ["validation", "rate_limit", "transient"],
+      required: false,
     },
     entryErrors: {
       type: [String],
@@ -43,6 +78,55 @@ const EntrySchema: Schema = new Schema(
       required: true,
       default: Date.now,
     },
+    source: {
+      type: String,
+      required: false,
+    },
+    language: {
+      type: String,
+      required: false,
+    },
+    tags: {
+      type: [String],
+      default: [],
+    },
+    leadImage: {
+      type: String,
+      required: false,
+    },
+    contentHash: {
+      type: String,
+      required: false,
+    },
+    contentConfidence: {
+      type: Number,
+      required: false,
+    },
+    sanitization: {
+      type: Schema.Types.Mixed,
+      required: false,
+    },
+    revisions: {
+      type: [EntryRevisionSchema],
+      default: [],
+    },
+    notionPageId: {
+      type: String,
+      required: false,
+      index: true,
+    },
+    notionUrl: {
+      type: String,
+      required: false,
+    },
+    needsNotionUpdate: {
+      type: Boolean,
+      default: false,
+    },
+    notionDroppedBlocks: {
+      type: Number,
+      default: 0,
+    },
   },
   {
     timestamps: true,
@@ -51,6 +135,7 @@ const EntrySchema: Schema = new Schema(
 
 // Create indexes for better query performance
 EntrySchema.index({ entryDate: -1 });
-EntrySchema.index({ created: 1 });
+EntrySchema.index({ syncStatus: 1, nextAttemptAt: 1 });
+EntrySchema.index({ needsNotionUpdate: 1 });
 
 export default mongoose.model<IEntry>("Entry", EntrySchema);
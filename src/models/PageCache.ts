@@ -0,0 +1,12 @@
+import { Document } from "mongoose";
+
+// Last downloaded HTML of an article page, with its validators for
+// conditional requests
+export interface IPageCache extends Document {
+  url: string;
+  html: string;
+  etag?: string;
+  lastModified?: string; // Last-Modified header, sent back as-is
+  fetchedAt: Date; // When the HTML was last downloaded
+  checkedAt: Date; // When the page was last requested, unchanged or not
+}
@@ -0,0 +1,47 @@
+import mongoose, { Schema } from "mongoose";
+import { config } from "../config";
+import { IPageCache } from "./PageCache";
+
+const PageCacheSchema: Schema = new Schema(
+  {
+    url: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    html: {
+      type: String,
+      required: true,
+    },
+    etag: {
+      type: String,
+      required: false,
+    },
+    lastModified: {
+      type: String,
+      required: false,
+    },
+    fetchedAt: {
+      type: Date,
+      required: true,
+    },
+    checkedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Pages that haven't been requested for a while are dropped. MongoDB keeps
+// the expiry an index was created with, syncPageCacheTtl applies a changed
+// PAGE_CACHE_DAYS to it.
+PageCacheSchema.index(
+  { checkedAt: 1 },
+  { expireAfterSeconds: config.crawler.pageCacheDays * 24 * 60 * 60 }
+);
+
+export default mongoose.model<IPageCache>("PageCache", PageCacheSchema);
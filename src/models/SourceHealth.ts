@@ -0,0 +1,17 @@
+import { Document } from "mongoose";
+
+// Selector matches counted during one crawl run of a source
+export interface ISourceHealthRun {
+  crawledAt: Date;
+  links: number; // Article links discovered
+  articles: number; // Articles scraped from their page
+  hits: Record<string, number>; // Matches by field, for configured selectors
+}
+
+export interface ISourceHealth extends Document {
+  source: string;
+  runs: ISourceHealthRun[]; // Most recent runs, oldest first
+  degraded: boolean;
+  degradedReasons: string[];
+  degradedSince?: Date;
+}
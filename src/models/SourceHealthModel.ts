@@ -0,0 +1,59 @@
+import mongoose, { Schema } from "mongoose";
+import { ISourceHealth } from "./SourceHealth";
+
+const SourceHealthRunSchema: Schema = new Schema(
+  {
+    crawledAt: {
+      type: Date,
+      required: true,
+    },
+    links: {
+      type: Number,
+      required: true,
+    },
+    articles: {
+      type: Number,
+      required: true,
+    },
+    hits: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+  },
+  { _id: false }
+);
+
+const SourceHealthSchema: Schema = new Schema(
+  {
+    source: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    runs: {
+      type: [SourceHealthRunSchema],
+      default: [],
+    },
+    degraded: {
+      type: Boolean,
+      default: false,
+    },
+    degradedReasons: {
+      type: [String],
+      default: [],
+    },
+    degradedSince: {
+      type: Date,
+      required: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export default mongoose.model<ISourceHealth>(
+  "SourceHealth",
+  SourceHealthSchema
+);
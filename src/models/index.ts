@@ -1,2 +1,14 @@
-export { IEntry } from "./Entry";
+export {
+  EntrySyncStatus,
+  IEntry,
+  IEntryRevision,
+  IEntrySanitization,
+  SyncErrorKind,
+} from "./Entry";
+export { ICrawlState } from "./CrawlState";
+export { ISourceHealth, ISourceHealthRun } from "./SourceHealth";
+export { IPageCache } from "./PageCache";
 export { default as EntryModel } from "./EntryModel";
+export { default as CrawlStateModel } from "./CrawlStateModel";
+export { default as SourceHealthModel } from "./SourceHealthModel";
+export { default as PageCacheModel } from "./PageCacheModel";
@@ -0,0 +1,76 @@
+#!/usr/bin/env tsx
+
+import { database } from "../database";
+import { EntryModel } from "../models";
+import { NotionClient, logger } from "../utils";
+import type { NotionDatabasePage } from "../utils/notion";
+
+// Finds Notion pages sharing the same link, keeps one per link (the page the
+// entry points to, otherwise the oldest), relinks the entry to it and
+// archives the rest. Pass --dry-run to only report duplicates.
+async function dedupe() {
+  const dryRun = process.argv.includes("--dry-run");
+  const notionClient = new NotionClient();
+
+  try {
+    logger.info(
+      `Looking for duplicate Notion pages${dryRun ? " (dry run)" : ""}...`
+    );
+
+    await database.connect();
+
+    if (!(await notionClient.testConnection())) {
+      throw new Error("Notion connection failed");
+    }
+
+    const pagesByLink = new Map<string, NotionDatabasePage[]>();
+    for (const page of await notionClient.listDatabasePages()) {
+      if (!page.link) continue;
+      const pages = pagesByLink.get(page.link) ?? [];
+      pages.push(page);
+      pagesByLink.set(page.link, pages);
+    }
+
+    let totalArchived = 0;
+
+    for (const [link, pages] of pagesByLink) {
+      if (pages.length < 2) continue;
+
+      const entry = await EntryModel.findOne({ link });
+      const sorted = [...pages].sort((a, b) =>
+        a.createdTime.localeCompare(b.createdTime)
+      );
+      const keep =
+        sorted.find((page) => page.id === entry?.notionPageId) ?? sorted[0];
+      const duplicates = sorted.filter((page) => page.id !== keep.id);
+
+      logger.info(
+        `${link}: keeping ${keep.url}, archiving ${duplicates.length} duplicate(s)`
+      );
+
+      if (dryRun) continue;
+
+      if (entry && entry.notionPageId !== keep.id) {
+        entry.syncStatus = "synced";
+        entry.notionPageId = keep.id;
+        entry.notionUrl = keep.url;
+        await entry.save();
+      }
+
+      for (const duplicate of duplicates) {
+        await notionClient.archivePage(duplicate.id);
+        totalArchived++;
+      }
+    }
+
+    logger.info(`✅ Deduplication completed. Archived: ${totalArchived}`);
+
+    await database.disconnect();
+    process.exit(0);
+  } catch (error) {
+    logger.error("Deduplication failed:", error);
+    process.exit(1);
+  }
+}
+
+dedupe();
@@ -0,0 +1,73 @@
+#!/usr/bin/env tsx
+
+import { database } from "../database";
+import { EntryModel, EntrySyncStatus } from "../models";
+import { logger } from "../utils";
+import { requeueEntry } from "../utils/syncState";
+
+// Lists entries the Notion sync gave up on. Pass --requeue to queue them
+// (and skipped entries) again, or --skip to leave them out of the sync for
+// good. Both take optional entry IDs to act on instead of every failed
+// entry; --skip with IDs also takes entries that are still queued.
+async function run() {
+  const args = process.argv.slice(2);
+  const action = args.includes("--requeue")
+    ? "requeue"
+    : args.includes("--skip")
+    ? "skip"
+    : "list";
+  const entryIds = args.filter((arg) => !arg.startsWith("--"));
+
+  try {
+    await database.connect();
+
+    let statuses: EntrySyncStatus[] = ["failed"];
+    if (action === "requeue") {
+      statuses = ["failed", "skipped"];
+    } else if (action === "skip" && entryIds.length > 0) {
+      statuses = ["pending", "retrying", "failed"];
+    }
+
+    const entries = await EntryModel.find({
+      syncStatus: { $in: statuses },
+      ...(entryIds.length > 0 ? { entryId: { $in: entryIds } } : {}),
+    }).sort({ entryDate: -1 });
+
+    logger.info(`Found ${entries.length} entries`);
+
+    for (const entry of entries) {
+      const attempts = entry.syncAttempts ?? 0;
+      logger.info(
+        `${entry.entryId} [${entry.syncStatus}, ${attempts} attempt(s)] ${
+          entry.title || entry.link
+        }`
+      );
+      const lastError = entry.entryErrors?.[entry.entryErrors.length - 1];
+      if (lastError) {
+        logger.info(`   ${lastError}`);
+      }
+
+      if (action === "requeue") {
+        requeueEntry(entry);
+        await entry.save();
+      } else if (action === "skip") {
+        entry.syncStatus = "skipped";
+        entry.nextAttemptAt = undefined;
+        await entry.save();
+      }
+    }
+
+    if (action !== "list") {
+      const verb = action === "requeue" ? "Requeued" : "Skipped";
+      logger.info(`✅ ${verb} ${entries.length} entries`);
+    }
+
+    await database.disconnect();
+    process.exit(0);
+  } catch (error) {
+    logger.error("Failed entry command failed:", error);
+    process.exit(1);
+  }
+}
+
+run();
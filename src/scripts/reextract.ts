@@ -0,0 +1,128 @@
+#!/usr/bin/env tsx
+
+import { config } from "../config";
+import { database } from "../database";
+import { crawlerJob } from "../jobs/crawler";
+import { EntryModel, PageCacheModel } from "../models";
+import { WebScraper, logger } from "../utils";
+import { withPageContent } from "../utils/feed";
+import type { ScrapedArticle } from "../utils/scraper";
+
+// Extracts stored articles again from their cached page HTML, without
+// fetching the site, e.g. after fixing a source's selectors. Takes optional
+// source names to limit it to those sources; --dry-run only reports what
+// would change. Sources that take their articles from a feed without
+// scraping the page have nothing cached and are skipped.
+async function run() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes("--dry-run");
+  const names = args.filter((arg) => !arg.startsWith("--"));
+
+  const unknown = names.filter(
+    (name) => !config.sources.some((source) => source.name === name)
+  );
+  if (unknown.length > 0) {
+    logger.error(`Unknown sources: ${unknown.join(", ")}`);
+    process.exit(1);
+  }
+
+  try {
+    await database.connect();
+
+    const scraper = new WebScraper();
+    let extracted = 0;
+    let updated = 0;
+    let uncached = 0;
+    let failed = 0;
+
+    const sources = config.sources.filter(
+      (source) => names.length === 0 || names.includes(source.name)
+    );
+    for (const source of sources) {
+      if (source.feedUrl && !source.feedFullContent) {
+        logger.info(`${source.name}: feed content only, skipped`);
+        continue;
+      }
+
+      const entries = await EntryModel.find({ source: source.name })
+        .select({
+          entryId: 1,
+          title: 1,
+          author: 1,
+          summary: 1,
+          content: 1,
+          link: 1,
+          entryDate: 1,
+          tags: 1,
+          leadImage: 1,
+        })
+        .lean();
+      logger.info(`${source.name}: ${entries.length} entries`);
+
+      for (const entry of entries) {
+        const { link } = entry;
+        const page = await PageCacheModel.findOne({ url: link }).lean();
+        if (!page) {
+          uncached++;
+          continue;
+        }
+
+        try {
+          const fromPage = scraper.extractArticle(page.html, link, source);
+
+          // Stored entries keep their entryId, and feed items the metadata
+          // their feed supplied
+          const stored: ScrapedArticle = {
+            entryId: entry.entryId,
+            title: entry.title ?? "",
+            author: entry.author ?? "",
+            content: entry.content,
+            summary: entry.summary ?? "",
+            link,
+            date: entry.entryDate,
+            tags: entry.tags ?? [],
+            leadImage: entry.leadImage,
+          };
+          const article = source.feedUrl
+            ? withPageContent(stored, fromPage)
+            : { ...fromPage, entryId: entry.entryId };
+          if (!article.content) {
+            logger.warn(`No content extracted from cached page: ${link}`);
+            failed++;
+            continue;
+          }
+          extracted++;
+
+          if (dryRun) {
+            logger.info(`Would re-extract: ${article.title || link}`);
+            continue;
+          }
+          // Selector fixes can change the author, tags and date too
+          const result = await crawlerJob.saveArticle(article, source, {
+            updateMetadata: true,
+          });
+          if (result !== null) {
+            updated++;
+          }
+        } catch (error) {
+          logger.error(`Failed to re-extract ${link}:`, error);
+          failed++;
+        }
+      }
+    }
+
+    logger.info(
+      `Re-extraction ${
+        dryRun ? "dry run " : ""
+      }completed. Extracted: ${extracted}, Updated: ${updated}, Not cached: ${uncached}, Failed: ${failed}`
+    );
+
+    await database.disconnect();
+    process.exit(0);
+  } catch (error) {
+    logger.error("Re-extraction failed:", error);
+    process.exit(1);
+  }
+}
+
+run();
@@ -1,9 +1,41 @@
 #!/usr/bin/env tsx
 
 import { database } from "../database";
-import { logger } from "../utils";
+import { NotionClient, logger } from "../utils";
 import { config } from "../config";
 
+async function setupNotionDatabase() {
+  logger.info("Checking Notion database...");
+  const notionClient = new NotionClient();
+  const databaseId = await notionClient.createDatabaseIfNotExists();
+
+  if (!databaseId) {
+    logger.warn(
+      "⚠️  Notion database unavailable - set NOTION_DATABASE_ID or NOTION_PARENT_PAGE_ID"
+    );
+    return;
+  }
+
+  if (databaseId !== config.notion.databaseId) {
+    logger.info(
+      `✅ Notion database created, set NOTION_DATABASE_ID=${databaseId}`
+    );
+  }
+
+  const issues = await notionClient.validateDatabaseSchema();
+  for (const issue of issues) {
+    const problem = issue.actual
+      ? `has type "${issue.actual}", expected "${issue.expected}"`
+      : `is missing, expected type "${issue.expected}"`;
+    logger.error(`❌ Notion property "${issue.property}" ${problem}`);
+  }
+
+  if (issues.length > 0) {
+    throw new Error("Notion database schema does not match");
+  }
+  logger.info("✅ Notion database schema is valid");
+}
+
 async function setup() {
   try {
     logger.info("Starting Gaming News Crawler setup...");
@@ -16,10 +48,11 @@ async function setup() {
     // Check environment variables
     logger.info("Checking configuration...");
 
-    if (
-      !config.notion.token ||
-      config.notion.token === "your_notion_integration_token_here"
-    ) {
+    const hasNotionToken =
+      !!config.notion.token &&
+      config.notion.token !== "your_notion_integration_token_here";
+
+    if (!hasNotionToken) {
       logger.warn(
         "⚠️  NOTION_TOKEN not configured - Notion sync will be disabled"
       );
@@ -38,6 +71,10 @@ async function setup() {
       logger.info("✅ Notion database ID configured");
     }
 
+    if (hasNotionToken) {
+      await setupNotionDatabase();
+    }
+
     logger.info("✅ Setup completed successfully!");
     logger.info("");
     logger.info("Next steps:");
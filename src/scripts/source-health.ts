@@ -0,0 +1,62 @@
+#!/usr/bin/env tsx
+
+import { config } from "../config";
+import { database } from "../database";
+import { SourceHealthModel } from "../models";
+import { logger } from "../utils";
+import { evaluateSourceHealth } from "../utils/sourceHealth";
+
+// Reports the selector hit rates of every source over its recent crawl runs.
+// Exits with code 2 when a source is degraded, so it can back an alert.
+async function report() {
+  try {
+    await database.connect();
+
+    let degradedSources = 0;
+
+    for (const source of config.sources) {
+      const health = await SourceHealthModel.findOne({ source: source.name });
+      if (!health || health.runs.length === 0) {
+        logger.info(`${source.name}: no crawl runs recorded yet`);
+        continue;
+      }
+
+      const status = evaluateSourceHealth(source, health.runs);
+      const latest = health.runs[health.runs.length - 1];
+      const rates = Object.entries(status.selectors)
+        .map(
+          ([field, { hitRate, articles }]) =>
+            `${field} ${Math.round(hitRate * 100)}% (${articles})`
+        )
+        .join(", ");
+
+      if (status.degraded) {
+        degradedSources++;
+        const since = health.degradedSince
+          ? ` since ${health.degradedSince.toISOString()}`
+          : "";
+        logger.warn(
+          `❌ ${source.name}: degraded${since} - ${status.reasons.join("; ")}`
+        );
+      } else {
+        logger.info(`✅ ${source.name}: healthy`);
+      }
+      logger.info(
+        `   last run ${latest.crawledAt.toISOString()}: ${
+          latest.links
+        } links, ${latest.articles} articles scraped`
+      );
+      if (rates) {
+        logger.info(`   selector hit rates: ${rates}`);
+      }
+    }
+
+    await database.disconnect();
+    process.exit(degradedSources > 0 ? 2 : 0);
+  } catch (error) {
+    logger.error("Source health report failed:", error);
+    process.exit(1);
+  }
+}
+
+report();
@@ -22,7 +22,7 @@ export const BANNED_ELEMENTS: readonly string[] = Object.freeze([
   "input",
   "isindex",
   "label",
-  "layer,",
+  "layer",
   "legend",
   "link",
   "marquee",
@@ -81,5 +81,19 @@ export const RESOURCE_TYPES_ALLOWED: readonly string[] = Object.freeze([
   "application/pdf",
 ]);
 
-export const MAX_BODY_LENGTH = 100;
+// Notion API limits for appending blocks in a single request
+export const MAX_BLOCKS_PER_REQUEST = 100;
+export const MAX_BLOCK_ELEMENTS_PER_REQUEST = 1000;
+
+// Notion API limits for rich text and property values
 export const MAX_RICH_TEXT_LENGTH = 2000;
+export const MAX_RICH_TEXT_ITEMS = 100;
+export const MAX_URL_LENGTH = 2000;
+export const MAX_SELECT_OPTION_LENGTH = 100;
+export const MAX_MULTI_SELECT_OPTIONS = 100;
+export const MAX_FILE_NAME_LENGTH = 100;
+
+// Largest file Notion accepts in a single-part upload
+export const MAX_IMAGE_UPLOAD_SIZE = 20 * 1024 * 1024;
+
+export const MAX_SITEMAP_DEPTH = 5;
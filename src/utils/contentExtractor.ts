@@ -0,0 +1,237 @@
+import parse, { HTMLElement } from "node-html-parser";
+
+export interface ExtractedContent {
+  html: string;
+  confidence: number; // 0 to 1, how much the result looks like an article body
+}
+
+// Never part of an article body
+const STRIPPED_ELEMENTS = [
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "nav",
+  "header",
+  "footer",
+  "aside",
+  "form",
+  "button",
+  "select",
+  "textarea",
+  "svg",
+  "canvas",
+  "dialog",
+];
+
+// Elements that always stay, whatever their class names
+const KEPT_ELEMENTS = new Set(["HTML", "BODY", "ARTICLE", "MAIN"]);
+
+// Block children that keep a div from being scored as a paragraph
+const BLOCK_ELEMENTS = new Set([
+  "ARTICLE",
+  "BLOCKQUOTE",
+  "DIV",
+  "DL",
+  "FIGURE",
+  "H1",
+  "H2",
+  "H3",
+  "H4",
+  "H5",
+  "H6",
+  "OL",
+  "P",
+  "PRE",
+  "SECTION",
+  "TABLE",
+  "UL",
+]);
+
+const PARAGRAPH_ELEMENTS = new Set(["P", "PRE", "TD", "BLOCKQUOTE"]);
+
+// Containers cleaned out of the result when they are mostly links
+const LINK_LIST_ELEMENTS = "div, section, ul, ol, table";
+
+// Class and id hints, adapted from Mozilla's Readability
+const UNLIKELY_CANDIDATES =
+  /banner|breadcrumb|combx|comment|community|cookie|disqus|extra|footer|gdpr|header|menu|modal|nav|newsletter|pagination|popup|promo|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|tags|tool|widget|\bad-|advert/i;
+const MAYBE_CANDIDATES =
+  /and|article|body|column|content|main|shadow|post|entry|story/i;
+const POSITIVE_HINTS =
+  /article|body|content|entry|hentry|main|page|post|story|text|blog/i;
+const NEGATIVE_HINTS =
+  /comment|com-|contact|foot|footnote|masthead|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget|hidden/i;
+
+const MIN_PARAGRAPH_LENGTH = 25;
+const SCORED_ANCESTORS = 3;
+// Body length from which the extraction is fully trusted
+const CONFIDENT_TEXT_LENGTH = 1000;
+
+const normalizedText = (element: HTMLElement): string =>
+  element.text.replace(/\s+/g, " ").trim();
+
+const hints = (element: HTMLElement): string =>
+  `${element.classNames} ${element.id}`;
+
+const classWeight = (element: HTMLElement): number => {
+  const value = hints(element);
+  let weight = 0;
+  if (NEGATIVE_HINTS.test(value)) weight -= 25;
+  if (POSITIVE_HINTS.test(value)) weight += 25;
+  return weight;
+};
+
+const initialScore = (element: HTMLElement): number => {
+  let score = classWeight(element);
+  switch (element.tagName) {
+    case "ARTICLE":
+      score += 10;
+      break;
+    case "DIV":
+    case "SECTION":
+      score += 5;
+      break;
+    case "PRE":
+    case "TD":
+    case "BLOCKQUOTE":
+      score += 3;
+      break;
+    case "OL":
+    case "UL":
+    case "DL":
+    case "LI":
+      score -= 3;
+      break;
+    case "H1":
+    case "H2":
+    case "H3":
+    case "H4":
+    case "H5":
+    case "H6":
+    case "TH":
+      score -= 5;
+      break;
+  }
+  return score;
+};
+
+// Share of the element's text that is link text
+const linkDensity = (element: HTMLElement): number => {
+  const length = normalizedText(element).length;
+  if (length === 0) return 0;
+  const linkLength = element
+    .querySelectorAll("a")
+    .reduce((total, link) => total + normalizedText(link).length, 0);
+  return Math.min(1, linkLength / length);
+};
+
+// Paragraphs, including divs that only hold inline content
+const isParagraph = (element: HTMLElement): boolean =>
+  PARAGRAPH_ELEMENTS.has(element.tagName) ||
+  (element.tagName === "DIV" &&
+    !element.children.some((child) => BLOCK_ELEMENTS.has(child.tagName)));
+
+const removeUnlikelyElements = (root: HTMLElement): void => {
+  root.querySelectorAll(STRIPPED_ELEMENTS.join(", ")).forEach((element) => {
+    element.remove();
+  });
+  for (const element of root.querySelectorAll("*")) {
+    if (KEPT_ELEMENTS.has(element.tagName)) continue;
+    const value = hints(element);
+    if (UNLIKELY_CANDIDATES.test(value) && !MAYBE_CANDIDATES.test(value)) {
+      element.remove();
+    }
+  }
+};
+
+// Scores the ancestors of every paragraph by how much text it holds, so the
+// element wrapping most of the article text ends up with the highest score
+const scoreCandidates = (root: HTMLElement): Map<HTMLElement, number> => {
+  const scores = new Map<HTMLElement, number>();
+
+  for (const paragraph of root.querySelectorAll("*")) {
+    if (!isParagraph(paragraph)) continue;
+    const text = normalizedText(paragraph);
+    if (text.length < MIN_PARAGRAPH_LENGTH) continue;
+
+    const contentScore =
+      1 + text.split(",").length + Math.min(Math.floor(text.length / 100), 3);
+
+    let ancestor = paragraph.parentNode;
+    for (let level = 0; level < SCORED_ANCESTORS && ancestor; level++) {
+      if (ancestor === root || !ancestor.tagName) break;
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+      const score = scores.get(ancestor) ?? initialScore(ancestor);
+      scores.set(ancestor, score + contentScore / divider);
+      ancestor = ancestor.parentNode;
+    }
+  }
+
+  for (const [element, score] of scores) {
+    scores.set(element, score * (1 - linkDensity(element)));
+  }
+  return scores;
+};
+
+// Siblings of the top candidate that belong to the article too, such as
+// paragraphs split across several containers
+const isRelatedSibling = (
+  sibling: HTMLElement,
+  scores: Map<HTMLElement, number>,
+  topScore: number
+): boolean => {
+  const threshold = Math.max(10, topScore * 0.2);
+  if ((scores.get(sibling) ?? 0) >= threshold) return true;
+  if (sibling.tagName !== "P") return false;
+
+  const text = normalizedText(sibling);
+  const density = linkDensity(sibling);
+  return text.length > 80
+    ? density < 0.25
+    : density === 0 && /\.( |$)/.test(text);
+};
+
+// Finds the main content of an article page by scoring elements on text
+// and link density, a simplified take on Mozilla's Readability. Returns
+// null when the page has no paragraph-like text.
+export function extractMainContent(html: string): ExtractedContent | null {
+  const root = parse(html);
+  removeUnlikelyElements(root);
+
+  const scores = scoreCandidates(root);
+  let top: HTMLElement | null = null;
+  let topScore = -Infinity;
+  for (const [element, score] of scores) {
+    if (score > topScore) {
+      top = element;
+      topScore = score;
+    }
+  }
+  if (!top) return null;
+
+  const parts = (top.parentNode?.children ?? [top]).filter(
+    (sibling) => sibling === top || isRelatedSibling(sibling, scores, topScore)
+  );
+  const content = parse(
+    parts
+      .map((part) => (part === top ? part.innerHTML : part.toString()))
+      .join("\n\n")
+  );
+
+  // Share buttons, tag lists and similar link blocks inside the article
+  content.querySelectorAll(LINK_LIST_ELEMENTS).forEach((element) => {
+    if (linkDensity(element) > 0.5) element.remove();
+  });
+
+  const text = normalizedText(content);
+  if (!text) return null;
+
+  const confidence =
+    Math.min(1, text.length / CONFIDENT_TEXT_LENGTH) *
+    (1 - linkDensity(content));
+  return {
+    html: content.toString().trim(),
+    confidence: Math.round(confidence * 100) / 100,
+  };
+}
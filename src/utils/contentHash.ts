@@ -0,0 +1,26 @@
+import { createHash } from "crypto";
+
+export interface HashableArticle {
+  title?: string;
+  summary?: string;
+  content: string;
+}
+
+// Whitespace changes, e.g. from markup that was only reformatted, are not
+// edits
+export function normalizeForHash(text: string): string {
+  return text.replace(/>\s+</g, "><").replace(/\s+/g, " ").trim();
+}
+
+// Hash of the fields that are mirrored to Notion, used to detect edits
+export function computeContentHash(article: HashableArticle): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        normalizeForHash(article.title ?? ""),
+        normalizeForHash(article.summary ?? ""),
+        normalizeForHash(article.content),
+      ])
+    )
+    .digest("hex");
+}
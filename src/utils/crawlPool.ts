@@ -0,0 +1,97 @@
+export interface HostLimits {
+  concurrency: number; // Requests to the host in flight at once
+  minDelay: number; // ms between the start of two requests to the host
+}
+
+interface HostState {
+  limits: HostLimits;
+  slots: Semaphore;
+  nextStart: number;
+}
+
+const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+// Lets a fixed number of tasks run at once, the rest wait in call order
+export class Semaphore {
+  private available: number;
+  private waiting: (() => void)[] = [];
+
+  constructor(permits: number) {
+    this.available = Math.max(1, permits);
+  }
+
+  public async use<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.available > 0) {
+      this.available--;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.available++;
+    }
+  }
+}
+
+// Bounded pool for crawl requests. Each host gets its own concurrency limit
+// and minimum delay between requests, and the pool caps the requests in
+// flight across every host.
+export class CrawlPool {
+  private slots: Semaphore;
+  private hosts = new Map<string, HostState>();
+
+  constructor(concurrency: number) {
+    this.slots = new Semaphore(concurrency);
+  }
+
+  // Runs the request once the URL's host and the pool both have room. A host
+  // keeps the limits it was first used with.
+  public run<T>(
+    url: string,
+    limits: HostLimits,
+    request: () => Promise<T>
+  ): Promise<T> {
+    const host = this.getHost(url, limits);
+    return host.slots.use(async () => {
+      // Reserve the start time before waiting so concurrent requests to
+      // the host stay spaced out
+      const now = Date.now();
+      const start = Math.max(now, host.nextStart);
+      host.nextStart = start + host.limits.minDelay;
+      if (start > now) await sleep(start - now);
+
+      return this.slots.use(request);
+    });
+  }
+
+  private getHost(url: string, limits: HostLimits): HostState {
+    let hostname: string;
+    try {
+      hostname = new URL(url).hostname;
+    } catch {
+      hostname = url;
+    }
+
+    let host = this.hosts.get(hostname);
+    if (!host) {
+      host = { limits, slots: new Semaphore(limits.concurrency), nextStart: 0 };
+      this.hosts.set(hostname, host);
+    }
+    return host;
+  }
+}
@@ -0,0 +1,188 @@
+import type { HTMLElement } from "node-html-parser";
+
+export type EmbedProvider =
+  | "youtube"
+  | "vimeo"
+  | "twitch"
+  | "twitter"
+  | "instagram"
+  | "reddit";
+
+export interface Embed {
+  provider: EmbedProvider;
+  url: string; // Canonical URL of the video or post
+  block: "video" | "embed" | "bookmark"; // Notion block used to show it
+}
+
+// Blockquotes that the providers' widget scripts turn into embedded posts
+const EMBED_BLOCKQUOTE_CLASSES = [
+  "twitter-tweet",
+  "twitter-video",
+  "instagram-media",
+  "reddit-embed-bs",
+  "reddit-card",
+];
+
+const parseUrl = (value: string): URL | null => {
+  try {
+    // Embed snippets often use protocol-relative URLs
+    const url = new URL(value.startsWith("//") ? `https:${value}` : value);
+    return url.protocol === "http:" || url.protocol === "https:" ? url : null;
+  } catch {
+    return null;
+  }
+};
+
+const resolveYouTube = (url: URL, host: string, path: string[]) => {
+  let id: string | null = null;
+  if (host === "youtu.be") {
+    id = path[0] ?? null;
+  } else if (path[0] === "watch") {
+    id = url.searchParams.get("v");
+  } else if (["embed", "shorts", "live", "v"].includes(path[0])) {
+    id = path[1] ?? null;
+  }
+  return id && /^[\w-]{11}$/.test(id)
+    ? `https://www.youtube.com/watch?v=${id}`
+    : null;
+};
+
+const resolveVimeo = (host: string, path: string[]) => {
+  const id = host === "player.vimeo.com" ? path[1] : path[0];
+  return id && /^\d+$/.test(id) ? `https://vimeo.com/${id}` : null;
+};
+
+const resolveTwitch = (url: URL, host: string, path: string[]) => {
+  const channel = url.searchParams.get("channel");
+  const video = url.searchParams.get("video");
+  const clip = url.searchParams.get("clip");
+
+  if (host === "player.twitch.tv") {
+    if (video) return `https://www.twitch.tv/videos/${video.replace(/^v/, "")}`;
+    if (channel) return `https://www.twitch.tv/${channel}`;
+    return null;
+  }
+  if (host === "clips.twitch.tv") {
+    const slug = path[0] === "embed" ? clip : path[0];
+    return slug ? `https://clips.twitch.tv/${slug}` : null;
+  }
+  return path.length > 0 ? `https://www.twitch.tv/${path.join("/")}` : null;
+};
+
+const resolveTwitter = (url: URL, host: string, path: string[]) => {
+  if (host === "platform.twitter.com") {
+    const id = url.searchParams.get("id");
+    return id ? `https://twitter.com/i/status/${id}` : null;
+  }
+  const statusIndex = path.indexOf("status");
+  const id = statusIndex > 0 ? path[statusIndex + 1] : undefined;
+  return id && /^\d+$/.test(id)
+    ? `https://twitter.com/${path[statusIndex - 1]}/status/${id}`
+    : null;
+};
+
+const resolveInstagram = (path: string[]) => {
+  const index = path.findIndex((part) => ["p", "reel", "tv"].includes(part));
+  const code = index >= 0 ? path[index + 1] : undefined;
+  return code ? `https://www.instagram.com/${path[index]}/${code}/` : null;
+};
+
+const resolveReddit = (path: string[]) =>
+  path[0] === "r" && path[2] === "comments"
+    ? `https://www.reddit.com/${path.join("/")}/`
+    : null;
+
+// Maps an embed or share URL of a supported provider to its canonical URL
+export function resolveEmbed(value: string): Embed | null {
+  const url = parseUrl(value.trim());
+  if (!url) return null;
+
+  const host = url.hostname.toLowerCase().replace(/^(www|m|mobile)\./, "");
+  const path = url.pathname.split("/").filter(Boolean);
+
+  if (
+    ["youtube.com", "youtube-nocookie.com", "youtu.be"].includes(host) ||
+    host.endsWith(".youtube.com")
+  ) {
+    const canonical = resolveYouTube(url, host, path);
+    return canonical
+      ? { provider: "youtube", url: canonical, block: "video" }
+      : null;
+  }
+  if (host === "vimeo.com" || host === "player.vimeo.com") {
+    const canonical = resolveVimeo(host, path);
+    return canonical
+      ? { provider: "vimeo", url: canonical, block: "video" }
+      : null;
+  }
+  if (host === "twitch.tv" || host.endsWith(".twitch.tv")) {
+    const canonical = resolveTwitch(url, host, path);
+    return canonical
+      ? { provider: "twitch", url: canonical, block: "embed" }
+      : null;
+  }
+  if (["twitter.com", "x.com", "platform.twitter.com"].includes(host)) {
+    const canonical = resolveTwitter(url, host, path);
+    return canonical
+      ? { provider: "twitter", url: canonical, block: "embed" }
+      : null;
+  }
+  if (host === "instagram.com") {
+    const canonical = resolveInstagram(path);
+    return canonical
+      ? { provider: "instagram", url: canonical, block: "embed" }
+      : null;
+  }
+  if (["reddit.com", "old.reddit.com", "embed.reddit.com"].includes(host)) {
+    const canonical = resolveReddit(path);
+    return canonical
+      ? { provider: "reddit", url: canonical, block: "bookmark" }
+      : null;
+  }
+  return null;
+}
+
+// Embed behind an <iframe>, <embed> or <object>, including lazy-loaded ones
+export function resolveFrameEmbed(node: HTMLElement): Embed | null {
+  const src =
+    node.getAttribute("src") ||
+    node.getAttribute("data-src") ||
+    node.getAttribute("data-lazy-src") ||
+    node.getAttribute("data") ||
+    "";
+  return resolveEmbed(src);
+}
+
+// Post embedded as a <blockquote class="twitter-tweet"> (or Instagram/Reddit
+// equivalent), identified by its permalink
+export function resolveBlockquoteEmbed(node: HTMLElement): Embed | null {
+  const classNames = (node.getAttribute("class") ?? "").split(/\s+/);
+  if (!EMBED_BLOCKQUOTE_CLASSES.some((name) => classNames.includes(name))) {
+    return null;
+  }
+
+  const permalink = node.getAttribute("data-instgrm-permalink");
+  const candidates = [
+    ...(permalink ? [permalink] : []),
+    // The permalink is the last link in tweet and Reddit snippets
+    ...node
+      .querySelectorAll("a")
+      .map((link) => link.getAttribute("href") ?? "")
+      .reverse(),
+  ];
+  for (const candidate of candidates) {
+    const embed = resolveEmbed(candidate);
+    if (embed) return embed;
+  }
+  return null;
+}
+
+// A paragraph holding nothing but a supported URL, which WordPress and most
+// CMSs render as an oEmbed
+export function resolveStandaloneEmbed(node: HTMLElement): Embed | null {
+  const text = node.text.trim();
+  if (!/^https?:\/\/\S+$/.test(text) || node.querySelector("img")) {
+    return null;
+  }
+  return resolveEmbed(text);
+}
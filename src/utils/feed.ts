@@ -0,0 +1,196 @@
+import axios from "axios";
+import * as cheerio from "cheerio";
+import { config, Source } from "../config";
+import { logger } from "./logger";
+import type { ScrapedArticle } from "./scraper";
+import { findContentImage, resolveImageUrl } from "./leadImage";
+
+export interface FeedItem {
+  id: string;
+  title: string;
+  author: string;
+  link: string;
+  date: Date | null;
+  summary: string;
+  content: string;
+  categories: string[];
+  image: string; // Enclosed or media image, "" when there is none
+}
+
+type FeedNode = ReturnType<cheerio.CheerioAPI>;
+
+const firstText = (node: FeedNode, selectors: string[]): string => {
+  for (const selector of selectors) {
+    const text = node.find(selector).first().text().trim();
+    if (text) return text;
+  }
+  return "";
+};
+
+const firstAttribute = (
+  node: FeedNode,
+  selectors: string[],
+  attribute: string
+): string => {
+  for (const selector of selectors) {
+    const value = node.find(selector).first().attr(attribute)?.trim();
+    if (value) return value;
+  }
+  return "";
+};
+
+// Media RSS images, in order of preference
+const IMAGE_SELECTORS = [
+  'media\\:content[medium="image"]',
+  'media\\:content[type^="image/"]',
+  "media\\:thumbnail",
+];
+const RSS_IMAGE_SELECTORS = ['enclosure[type^="image/"]', ...IMAGE_SELECTORS];
+
+const parseFeedDate = (text: string): Date | null => {
+  if (!text) return null;
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// Parses an RSS 2.0 or Atom document into a flat list of items
+export function parseFeed(xml: string): FeedItem[] {
+  const $ = cheerio.load(xml, { xml: true });
+  const items: FeedItem[] = [];
+
+  // RSS 2.0
+  $("rss channel > item, rdf\\:RDF > item").each((_, item) => {
+    const node = $(item);
+    const link = firstText(node, ["link"]);
+    items.push({
+      id: firstText(node, ["guid"]) || link,
+      title: firstText(node, ["title"]),
+      author: firstText(node, ["dc\\:creator", "author"]),
+      link,
+      date: parseFeedDate(firstText(node, ["pubDate", "dc\\:date"])),
+      summary: firstText(node, ["description"]),
+      content: firstText(node, ["content\\:encoded"]),
+      categories: node
+        .children("category")
+        .map((_, category) => $(category).text().trim())
+        .get()
+        .filter(Boolean),
+      image: firstAttribute(node, RSS_IMAGE_SELECTORS, "url"),
+    });
+  });
+
+  // Atom
+  $("feed > entry").each((_, entry) => {
+    const node = $(entry);
+    const links = node.children("link");
+    const alternate = links
+      .filter((_, link) => {
+        const rel = $(link).attr("rel");
+        return !rel || rel === "alternate";
+      })
+      .first();
+    const link = (
+      alternate.attr("href") ||
+      links.first().attr("href") ||
+      ""
+    ).trim();
+    const imageEnclosure = links
+      .filter((_, link) => {
+        const element = $(link);
+        return (
+          element.attr("rel") === "enclosure" &&
+          !!element.attr("type")?.startsWith("image/")
+        );
+      })
+      .first();
+    items.push({
+      id: firstText(node, ["id"]) || link,
+      title: firstText(node, ["title"]),
+      author: firstText(node, ["author > name"]),
+      link,
+      date: parseFeedDate(firstText(node, ["published", "updated"])),
+      summary: firstText(node, ["summary"]),
+      content: firstText(node, ["content"]),
+      categories: node
+        .children("category")
+        .map((_, category) => $(category).attr("term")?.trim() ?? "")
+        .get()
+        .filter(Boolean),
+      image:
+        imageEnclosure.attr("href")?.trim() ||
+        firstAttribute(node, IMAGE_SELECTORS, "url"),
+    });
+  });
+
+  return items.filter((item) => item.id && item.link);
+}
+
+// Combines a feed item with the full body scraped from its page. Feed
+// metadata is authoritative, the page only fills in what the feed lacks.
+export function withPageContent(
+  feedArticle: ScrapedArticle,
+  scraped: ScrapedArticle
+): ScrapedArticle {
+  return {
+    ...feedArticle,
+    author: feedArticle.author || scraped.author,
+    tags: feedArticle.tags.length > 0 ? feedArticle.tags : scraped.tags,
+    summary: feedArticle.summary || scraped.summary,
+    leadImage: feedArticle.leadImage ?? scraped.leadImage,
+    content: scraped.content,
+    contentConfidence: scraped.contentConfidence,
+    selectorHits: scraped.selectorHits,
+  };
+}
+
+export class FeedReader {
+  private userAgent: string;
+  private timeout: number;
+
+  constructor() {
+    this.userAgent = config.crawler.userAgent;
+    this.timeout = config.crawler.timeout;
+  }
+
+  public async getFeedArticles(source: Source): Promise<ScrapedArticle[]> {
+    if (!source.feedUrl) return [];
+
+    try {
+      logger.debug(`Fetching feed: ${source.feedUrl}`);
+
+      const response = await axios.get<string>(source.feedUrl, {
+        headers: {
+          "User-Agent": this.userAgent,
+          Accept:
+            "application/rss+xml, application/atom+xml, application/xml;q=0.9, */*;q=0.8",
+        },
+        timeout: this.timeout,
+        maxRedirects: 5,
+        responseType: "text",
+      });
+
+      const articles = parseFeed(response.data).map(
+        (item): ScrapedArticle => ({
+          entryId: item.id,
+          title: item.title,
+          author: item.author,
+          content: item.content || item.summary,
+          summary: item.summary,
+          link: item.link,
+          date: item.date ?? new Date(),
+          tags: item.categories,
+          leadImage:
+            resolveImageUrl(item.image, item.link) ??
+            findContentImage(item.content, item.link) ??
+            undefined,
+        })
+      );
+
+      logger.info(`Found ${articles.length} feed items from ${source.feedUrl}`);
+      return articles.slice(0, config.crawler.maxArticlesPerRun);
+    } catch (error) {
+      logger.error(`Failed to read feed ${source.feedUrl}:`, error);
+      return [];
+    }
+  }
+}
@@ -0,0 +1,602 @@
+import parse, { HTMLElement, Node, TextNode } from "node-html-parser";
+import type { BlockObjectRequest } from "@notionhq/client/build/src/api-endpoints";
+import {
+  Embed,
+  resolveBlockquoteEmbed,
+  resolveFrameEmbed,
+  resolveStandaloneEmbed,
+} from "./embeds";
+import {
+  RichText,
+  chunkRichText,
+  splitRichText,
+  textToRichText,
+} from "./richText";
+
+type Annotations = NonNullable<RichText["annotations"]>;
+
+type ChildBlock = NonNullable<
+  Extract<BlockObjectRequest, { quote: unknown }>["quote"]["children"]
+>[number];
+
+type CodeLanguage = Extract<
+  BlockObjectRequest,
+  { code: unknown }
+>["code"]["language"];
+
+export interface HtmlConversionResult {
+  blocks: BlockObjectRequest[];
+  unsupportedElements: Record<string, number>; // Tag name -> occurrences
+}
+
+interface InlineStyle {
+  annotations: Annotations;
+  link?: string;
+}
+
+// Output of a container being converted: inline text waiting to become a
+// paragraph and the blocks emitted so far
+interface BlockSink {
+  depth: number; // Nesting level of the blocks in this sink
+  blocks: BlockObjectRequest[];
+  richText: RichText[];
+  // When set, the first run of inline text is kept here instead of becoming
+  // a paragraph (the text of a list item, quote, heading or caption)
+  lead?: RichText[] | null;
+}
+
+// The API accepts blocks nested two levels deep in a single request
+const MAX_NESTING_DEPTH = 2;
+
+const INLINE_ANNOTATIONS: Record<string, Annotations> = {
+  B: { bold: true },
+  STRONG: { bold: true },
+  I: { italic: true },
+  EM: { italic: true },
+  U: { underline: true },
+  INS: { underline: true },
+  S: { strikethrough: true },
+  DEL: { strikethrough: true },
+  STRIKE: { strikethrough: true },
+  CODE: { code: true },
+  KBD: { code: true },
+  SAMP: { code: true },
+};
+
+// Notion only has three heading levels
+const HEADING_LEVELS: Record<string, 1 | 2 | 3> = {
+  H1: 1,
+  H2: 2,
+  H3: 3,
+  H4: 3,
+  H5: 3,
+  H6: 3,
+};
+
+// Containers converted as if the tag wasn't there, the block-level ones
+// starting a new paragraph
+const TRANSPARENT_BLOCK_ELEMENTS = new Set([
+  "ADDRESS",
+  "ARTICLE",
+  "ASIDE",
+  "CENTER",
+  "DIV",
+  "FOOTER",
+  "HEADER",
+  "MAIN",
+  "NAV",
+  "PICTURE",
+  "SECTION",
+]);
+const TRANSPARENT_INLINE_ELEMENTS = new Set([
+  "ABBR",
+  "BIG",
+  "CITE",
+  "DFN",
+  "FONT",
+  "MARK",
+  "Q",
+  "SMALL",
+  "SPAN",
+  "SUB",
+  "SUP",
+  "TIME",
+]);
+
+// Elements without readable content, dropped silently
+const IGNORED_ELEMENTS = new Set([
+  "HEAD",
+  "LINK",
+  "META",
+  "NOSCRIPT",
+  "SCRIPT",
+  "SOURCE",
+  "STYLE",
+  "TEMPLATE",
+  "WBR",
+]);
+
+// Elements that can't be represented in Notion, dropped with their content
+const DROPPED_ELEMENTS = new Set([
+  "AUDIO",
+  "BUTTON",
+  "CANVAS",
+  "FORM",
+  "INPUT",
+  "MAP",
+  "SELECT",
+  "SVG",
+  "TEXTAREA",
+  "VIDEO",
+]);
+
+const CODE_LANGUAGE_ALIASES: Record<string, CodeLanguage> = {
+  bash: "bash",
+  c: "c",
+  cpp: "c++",
+  csharp: "c#",
+  css: "css",
+  go: "go",
+  html: "html",
+  java: "java",
+  javascript: "javascript",
+  js: "javascript",
+  json: "json",
+  lua: "lua",
+  markdown: "markdown",
+  md: "markdown",
+  php: "php",
+  py: "python",
+  python: "python",
+  ruby: "ruby",
+  rust: "rust",
+  sh: "shell",
+  shell: "shell",
+  sql: "sql",
+  ts: "typescript",
+  typescript: "typescript",
+  xml: "xml",
+  yaml: "yaml",
+  yml: "yaml",
+};
+
+const isHttpUrl = (url: string): boolean => /^https?:\/\//i.test(url);
+
+const sameStyle = (a: RichText, b: RichText): boolean =>
+  JSON.stringify(a.annotations ?? {}) === JSON.stringify(b.annotations ?? {}) &&
+  a.text.link?.url === b.text.link?.url;
+
+// Trims the edges of a run of inline text and drops empty items
+const trimRichText = (richText: RichText[]): RichText[] => {
+  const items = richText.map((item) => ({
+    ...item,
+    text: { ...item.text },
+  }));
+  while (items.length > 0 && !items[0].text.content.trimStart()) {
+    items.shift();
+  }
+  while (items.length > 0 && !items[items.length - 1].text.content.trimEnd()) {
+    items.pop();
+  }
+  if (items.length > 0) {
+    items[0].text.content = items[0].text.content.trimStart();
+    const last = items[items.length - 1];
+    last.text.content = last.text.content.trimEnd();
+  }
+  return items;
+};
+
+// Paragraphs for a run of inline text, split when it has more spans than a
+// single block accepts
+const toParagraphs = (richText: RichText[]): BlockObjectRequest[] =>
+  chunkRichText(richText).map((rich_text) => ({
+    type: "paragraph",
+    paragraph: { rich_text },
+  }));
+
+const headingBlock = (
+  level: 1 | 2 | 3,
+  rich_text: RichText[]
+): BlockObjectRequest => {
+  switch (level) {
+    case 1:
+      return { type: "heading_1", heading_1: { rich_text } };
+    case 2:
+      return { type: "heading_2", heading_2: { rich_text } };
+    case 3:
+      return { type: "heading_3", heading_3: { rich_text } };
+  }
+};
+
+const listItemBlock = (
+  ordered: boolean,
+  rich_text: RichText[]
+): BlockObjectRequest =>
+  ordered
+    ? { type: "numbered_list_item", numbered_list_item: { rich_text } }
+    : { type: "bulleted_list_item", bulleted_list_item: { rich_text } };
+
+const embedBlock = ({ block, url }: Embed): BlockObjectRequest => {
+  switch (block) {
+    case "video":
+      return { type: "video", video: { type: "external", external: { url } } };
+    case "embed":
+      return { type: "embed", embed: { url } };
+    case "bookmark":
+      return { type: "bookmark", bookmark: { url } };
+  }
+};
+
+const getCodeLanguage = (node: HTMLElement): CodeLanguage => {
+  const classNames = [node, ...node.querySelectorAll("code")]
+    .map((element) => element.getAttribute("class") ?? "")
+    .join(" ");
+  const match = classNames.match(/\b(?:language|lang)-([\w+#-]+)/i);
+  return (
+    (match && CODE_LANGUAGE_ALIASES[match[1].toLowerCase()]) || "plain text"
+  );
+};
+
+class HtmlToNotionConverter {
+  private unsupported = new Map<string, number>();
+
+  public convert(html: string): HtmlConversionResult {
+    // Parse <pre> like any other element so its markup isn't kept as text
+    const root = parse(html, {
+      blockTextElements: { script: true, noscript: true, style: true },
+    });
+    const sink = this.createSink(0);
+    this.visitChildren(root, { annotations: {} }, sink);
+    this.flush(sink);
+
+    return {
+      blocks: sink.blocks,
+      unsupportedElements: Object.fromEntries(this.unsupported),
+    };
+  }
+
+  private createSink(depth: number, captureLead = false): BlockSink {
+    return {
+      depth,
+      blocks: [],
+      richText: [],
+      lead: captureLead ? null : undefined,
+    };
+  }
+
+  private report(tagName: string): void {
+    const tag = tagName.toLowerCase();
+    this.unsupported.set(tag, (this.unsupported.get(tag) ?? 0) + 1);
+  }
+
+  // Turns pending inline text into paragraphs (or the sink's lead text)
+  private flush(sink: BlockSink): void {
+    const richText = splitRichText(trimRichText(sink.richText));
+    sink.richText = [];
+    if (richText.length === 0) return;
+
+    if (sink.lead === null && sink.blocks.length === 0) {
+      // Spans that don't fit in the block's own text follow as paragraphs
+      const [lead, ...rest] = chunkRichText(richText);
+      sink.lead = lead;
+      sink.blocks.push(...rest.flatMap(toParagraphs));
+    } else {
+      sink.blocks.push(...toParagraphs(richText));
+    }
+  }
+
+  private pushText(text: string, style: InlineStyle, sink: BlockSink): void {
+    const last = sink.richText[sink.richText.length - 1];
+    // Collapse whitespace across adjacent text nodes
+    const content =
+      !last || /\s$/.test(last.text.content) ? text.replace(/^ /, "") : text;
+    if (!content) return;
+
+    const item: RichText = { type: "text", text: { content } };
+    if (style.link) item.text.link = { url: style.link };
+    if (Object.keys(style.annotations).length > 0) {
+      item.annotations = { ...style.annotations };
+    }
+
+    if (last && sameStyle(last, item)) {
+      last.text.content += content;
+    } else {
+      sink.richText.push(item);
+    }
+  }
+
+  // Appends a block, nesting its children when the API allows it and
+  // placing them after the block otherwise
+  private pushBlock(
+    sink: BlockSink,
+    block: BlockObjectRequest,
+    children: BlockObjectRequest[] = []
+  ): void {
+    if (children.length > 0 && sink.depth < MAX_NESTING_DEPTH) {
+      const content = Object.values(block).find(
+        (value) => typeof value === "object"
+      ) as { children?: ChildBlock[] };
+      content.children = children as ChildBlock[];
+      sink.blocks.push(block);
+    } else {
+      sink.blocks.push(block, ...children);
+    }
+  }
+
+  private pushEmbed(embed: Embed | null, sink: BlockSink): boolean {
+    if (!embed) return false;
+    this.flush(sink);
+    sink.blocks.push(embedBlock(embed));
+    return true;
+  }
+
+  private visitChildren(
+    node: HTMLElement,
+    style: InlineStyle,
+    sink: BlockSink
+  ): void {
+    node.childNodes.forEach((child) => this.visit(child, style, sink));
+  }
+
+  // Converts the children of a container into its own sink
+  private convertContainer(
+    node: HTMLElement,
+    depth: number,
+    captureLead = false
+  ): BlockSink {
+    const sink = this.createSink(depth, captureLead);
+    this.visitChildren(node, { annotations: {} }, sink);
+    this.flush(sink);
+    return sink;
+  }
+
+  private visit(node: Node, style: InlineStyle, sink: BlockSink): void {
+    if (node instanceof TextNode) {
+      const text = node.text.replace(/\s+/g, " ");
+      if (text) this.pushText(text, style, sink);
+      return;
+    }
+    if (!(node instanceof HTMLElement)) return;
+
+    const tagName = node.tagName;
+    if (!tagName || IGNORED_ELEMENTS.has(tagName)) return;
+
+    if (tagName in INLINE_ANNOTATIONS) {
+      this.visitChildren(
+        node,
+        {
+          ...style,
+          annotations: { ...style.annotations, ...INLINE_ANNOTATIONS[tagName] },
+        },
+        sink
+      );
+      return;
+    }
+
+    if (tagName in HEADING_LEVELS) {
+      this.flush(sink);
+      const heading = this.convertContainer(node, sink.depth, true);
+      if (heading.lead) {
+        sink.blocks.push(headingBlock(HEADING_LEVELS[tagName], heading.lead));
+      }
+      sink.blocks.push(...heading.blocks);
+      return;
+    }
+
+    switch (tagName) {
+      case "A": {
+        const href = node.getAttribute("href")?.trim() ?? "";
+        this.visitChildren(
+          node,
+          isHttpUrl(href) ? { ...style, link: href } : style,
+          sink
+        );
+        return;
+      }
+      case "BR":
+        sink.richText.push({ type: "text", text: { content: "\n" } });
+        return;
+      case "P":
+        this.flush(sink);
+        if (!this.pushEmbed(resolveStandaloneEmbed(node), sink)) {
+          this.visitChildren(node, style, sink);
+          this.flush(sink);
+        }
+        return;
+      case "IFRAME":
+      case "EMBED":
+      case "OBJECT":
+        if (!this.pushEmbed(resolveFrameEmbed(node), sink)) {
+          this.report(tagName);
+        }
+        return;
+      case "IMG": {
+        const src =
+          node.getAttribute("src")?.trim() ||
+          node.getAttribute("data-src")?.trim() ||
+          "";
+        if (isHttpUrl(src)) {
+          this.flush(sink);
+          sink.blocks.push({
+            type: "image",
+            image: { type: "external", external: { url: src } },
+          });
+        }
+        return;
+      }
+      case "HR":
+        this.flush(sink);
+        sink.blocks.push({ type: "divider", divider: {} });
+        return;
+      case "UL":
+      case "OL":
+        this.flush(sink);
+        this.visitList(node, tagName === "OL", sink);
+        return;
+      case "BLOCKQUOTE": {
+        this.flush(sink);
+        if (this.pushEmbed(resolveBlockquoteEmbed(node), sink)) return;
+        const quote = this.convertContainer(node, sink.depth + 1, true);
+        this.pushBlock(
+          sink,
+          { type: "quote", quote: { rich_text: quote.lead ?? [] } },
+          quote.blocks
+        );
+        return;
+      }
+      case "PRE": {
+        this.flush(sink);
+        const code = node.text.replace(/^\n|\s+$/g, "");
+        if (code) {
+          sink.blocks.push({
+            type: "code",
+            code: {
+              rich_text: textToRichText(code),
+              language: getCodeLanguage(node),
+            },
+          });
+        }
+        return;
+      }
+      case "FIGURE":
+        this.flush(sink);
+        this.visitFigure(node, sink);
+        return;
+      case "TABLE":
+        this.flush(sink);
+        this.visitTable(node, sink);
+        return;
+    }
+
+    if (TRANSPARENT_BLOCK_ELEMENTS.has(tagName)) {
+      this.flush(sink);
+      if (!this.pushEmbed(resolveStandaloneEmbed(node), sink)) {
+        this.visitChildren(node, style, sink);
+        this.flush(sink);
+      }
+      return;
+    }
+
+    if (TRANSPARENT_INLINE_ELEMENTS.has(tagName)) {
+      this.visitChildren(node, style, sink);
+      return;
+    }
+
+    this.report(tagName);
+    if (!DROPPED_ELEMENTS.has(tagName)) {
+      // Keep the text of unknown elements
+      this.visitChildren(node, style, sink);
+    }
+  }
+
+  private visitList(node: HTMLElement, ordered: boolean, sink: BlockSink) {
+    node.childNodes.forEach((child) => {
+      if (!(child instanceof HTMLElement) || child.tagName !== "LI") {
+        // Stray text or nested lists directly inside the list
+        this.visit(child, { annotations: {} }, sink);
+        this.flush(sink);
+        return;
+      }
+
+      const item = this.convertContainer(child, sink.depth + 1, true);
+      this.pushBlock(
+        sink,
+        listItemBlock(ordered, item.lead ?? []),
+        item.blocks
+      );
+    });
+  }
+
+  private visitFigure(node: HTMLElement, sink: BlockSink): void {
+    const figure = this.createSink(sink.depth);
+    let caption: RichText[] = [];
+
+    node.childNodes.forEach((child) => {
+      if (child instanceof HTMLElement && child.tagName === "FIGCAPTION") {
+        caption = this.convertContainer(child, sink.depth, true).lead ?? [];
+      } else {
+        this.visit(child, { annotations: {} }, figure);
+      }
+    });
+    this.flush(figure);
+
+    const image = figure.blocks.find(
+      (block): block is Extract<BlockObjectRequest, { image: unknown }> =>
+        "image" in block
+    );
+    if (image && caption.length > 0) {
+      image.image.caption = caption;
+    } else if (caption.length > 0) {
+      figure.blocks.push(...toParagraphs(caption));
+    }
+    sink.blocks.push(...figure.blocks);
+  }
+
+  private visitTable(node: HTMLElement, sink: BlockSink): void {
+    const rows = node
+      .querySelectorAll("tr")
+      .filter((row) => row.closest("table") === node)
+      .map((row) =>
+        row.childNodes.filter(
+          (cell): cell is HTMLElement =>
+            cell instanceof HTMLElement &&
+            (cell.tagName === "TD" || cell.tagName === "TH")
+        )
+      )
+      .filter((cells) => cells.length > 0);
+
+    const caption = node.childNodes.find(
+      (child): child is HTMLElement =>
+        child instanceof HTMLElement && child.tagName === "CAPTION"
+    );
+    if (caption) {
+      const captionText = this.convertContainer(caption, sink.depth, true);
+      sink.blocks.push(...toParagraphs(captionText.lead ?? []));
+    }
+
+    if (rows.length === 0) return;
+
+    const cellText = (cell: HTMLElement): RichText[] =>
+      this.convertContainer(cell, sink.depth, true).lead ?? [];
+
+    // Table rows are children of the table block, so deeply nested tables
+    // fall back to one paragraph per row
+    if (sink.depth >= MAX_NESTING_DEPTH) {
+      rows.forEach((cells) => {
+        const richText = cells.flatMap((cell, index) => [
+          ...(index > 0 ? textToRichText(" | ") : []),
+          ...cellText(cell),
+        ]);
+        sink.blocks.push(...toParagraphs(richText));
+      });
+      return;
+    }
+
+    const tableWidth = Math.max(...rows.map((cells) => cells.length));
+    const hasColumnHeader =
+      rows[0].every((cell) => cell.tagName === "TH") ||
+      rows[0][0].closest("thead") !== null;
+
+    sink.blocks.push({
+      type: "table",
+      table: {
+        table_width: tableWidth,
+        has_column_header: hasColumnHeader,
+        children: rows.map((cells) => ({
+          type: "table_row",
+          table_row: {
+            cells: Array.from({ length: tableWidth }, (_, index) =>
+              cells[index] ? cellText(cells[index]) : []
+            ),
+          },
+        })),
+      },
+    });
+  }
+}
+
+// Converts article HTML to Notion blocks, reporting the elements that had
+// no Notion equivalent
+export function htmlToNotionBlocks(html: string): HtmlConversionResult {
+  return new HtmlToNotionConverter().convert(html);
+}
@@ -0,0 +1,144 @@
+import axios from "axios";
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import type { Client } from "@notionhq/client";
+import { config } from "../config";
+import { MAX_IMAGE_UPLOAD_SIZE, RESOURCE_TYPES_ALLOWED } from "./constants";
+import { logger } from "./logger";
+import { withNotionRetry } from "./notionRequests";
+
+interface DownloadedImage {
+  filename: string;
+  contentType: string;
+  data: Buffer;
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/gif": "gif",
+  "image/jpeg": "jpg",
+  "image/png": "png",
+};
+
+// Image types that can be rehosted
+const ALLOWED_IMAGE_TYPES = RESOURCE_TYPES_ALLOWED.filter(
+  (type) => type in IMAGE_EXTENSIONS
+);
+
+// Downloads article images and uploads them to Notion, so pages keep their
+// images when the source site rotates its CDN or blocks hotlinking.
+// Downloads are cached on disk by URL hash.
+export class ImageRehoster {
+  private notion: Client;
+  private cacheDir: string;
+
+  constructor(notion: Client, cacheDir: string = config.notion.imageCachePath) {
+    this.notion = notion;
+    this.cacheDir = cacheDir;
+  }
+
+  // Returns the ID of a file upload holding the image, or null when it
+  // can't be rehosted and should stay an external image
+  public async upload(url: string, referer?: string): Promise<string | null> {
+    try {
+      const image =
+        (await this.readCache(url)) ?? (await this.download(url, referer));
+      if (!image) return null;
+
+      const fileUpload = await withNotionRetry(() =>
+        this.notion.fileUploads.create({
+          mode: "single_part",
+          filename: image.filename,
+          content_type: image.contentType,
+        })
+      );
+      // Sending again after a timeout could fail on an upload that already
+      // has its file, the image then simply stays external
+      await withNotionRetry(
+        () =>
+          this.notion.fileUploads.send({
+            file_upload_id: fileUpload.id,
+            file: {
+              filename: image.filename,
+              data: new Blob([new Uint8Array(image.data)], {
+                type: image.contentType,
+              }),
+            },
+          }),
+        { retryTimeouts: false }
+      );
+
+      return fileUpload.id;
+    } catch (error) {
+      logger.warn(`Failed to rehost image ${url}:`, error);
+      return null;
+    }
+  }
+
+  private getCachePaths(url: string) {
+    const hash = createHash("sha256").update(url).digest("hex");
+    return {
+      hash,
+      data: path.join(this.cacheDir, hash),
+      meta: path.join(this.cacheDir, `${hash}.json`),
+    };
+  }
+
+  private async readCache(url: string): Promise<DownloadedImage | null> {
+    const paths = this.getCachePaths(url);
+    try {
+      const meta = JSON.parse(await fs.readFile(paths.meta, "utf8"));
+      return {
+        filename: meta.filename,
+        contentType: meta.contentType,
+        data: await fs.readFile(paths.data),
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  private async download(
+    url: string,
+    referer?: string
+  ): Promise<DownloadedImage | null> {
+    const response = await axios.get<ArrayBuffer>(url, {
+      responseType: "arraybuffer",
+      timeout: config.crawler.timeout,
+      maxContentLength: MAX_IMAGE_UPLOAD_SIZE,
+      headers: {
+        "User-Agent": config.crawler.userAgent,
+        ...(referer ? { Referer: referer } : {}),
+      },
+    });
+
+    const contentType = String(response.headers["content-type"] ?? "")
+      .split(";")[0]
+      .trim()
+      .toLowerCase();
+    if (!ALLOWED_IMAGE_TYPES.includes(contentType)) {
+      logger.debug(`Not rehosting image ${url} of type "${contentType}"`);
+      return null;
+    }
+
+    const paths = this.getCachePaths(url);
+    const image: DownloadedImage = {
+      filename: `${paths.hash.slice(0, 16)}.${IMAGE_EXTENSIONS[contentType]}`,
+      contentType,
+      data: Buffer.from(response.data),
+    };
+
+    try {
+      await fs.mkdir(this.cacheDir, { recursive: true });
+      await fs.writeFile(paths.data, image.data);
+      await fs.writeFile(
+        paths.meta,
+        JSON.stringify({ url, filename: image.filename, contentType })
+      );
+    } catch (error) {
+      logger.warn(`Failed to cache image ${url}:`, error);
+    }
+
+    return image;
+  }
+}
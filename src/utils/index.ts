@@ -1,3 +1,5 @@
 export { logger } from "./logger";
 export { WebScraper } from "./scraper";
+export { FeedReader } from "./feed";
+export { SitemapReader } from "./sitemap";
 export { NotionClient } from "./notion";
@@ -0,0 +1,46 @@
+import * as cheerio from "cheerio";
+import { MAX_URL_LENGTH, URL_REGEX } from "./constants";
+import type { ArticleMetadata } from "./metadata";
+
+const CONTENT_IMAGE_ATTRIBUTES = ["data-src", "data-lazy-src", "src"];
+
+// Resolves an image URL against the page URL, returning null unless the
+// result is an http(s) URL that Notion accepts as an external file
+export function resolveImageUrl(
+  value: string | undefined,
+  baseUrl: string
+): string | null {
+  if (!value?.trim()) return null;
+  try {
+    const url = new URL(value.trim(), baseUrl).href;
+    return url.search(URL_REGEX) === 0 && url.length <= MAX_URL_LENGTH
+      ? url
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// First image of article content that has a usable URL
+export function findContentImage(html: string, baseUrl: string): string | null {
+  const $ = cheerio.load(html);
+  for (const img of $("img").toArray()) {
+    for (const attribute of CONTENT_IMAGE_ATTRIBUTES) {
+      const value = $(img).attr(attribute);
+      if (value?.startsWith("data:")) continue;
+      const url = resolveImageUrl(value, baseUrl);
+      if (url) return url;
+    }
+  }
+  return null;
+}
+
+// Lead image of an article page: the image from its structured metadata,
+// then the first image of the article content
+export function findLeadImage(
+  metadata: ArticleMetadata,
+  content: string,
+  url: string
+): string | null {
+  return resolveImageUrl(metadata.image, url) ?? findContentImage(content, url);
+}
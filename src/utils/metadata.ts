@@ -0,0 +1,162 @@
+import * as cheerio from "cheerio";
+import { logger } from "./logger";
+
+// Article fields published as structured data, used when source selectors
+// find nothing
+export interface ArticleMetadata {
+  title?: string;
+  author?: string;
+  published?: Date;
+  modified?: Date;
+  description?: string;
+  image?: string;
+  section?: string;
+  tags: string[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+// schema.org types that describe an article
+const ARTICLE_TYPES = new Set([
+  "Article",
+  "NewsArticle",
+  "AnalysisNewsArticle",
+  "OpinionNewsArticle",
+  "ReportageNewsArticle",
+  "ReviewNewsArticle",
+  "BlogPosting",
+  "TechArticle",
+  "Report",
+]);
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const asArray = (value: unknown): unknown[] =>
+  Array.isArray(value) ? value : value === undefined ? [] : [value];
+
+const cleanText = (value: unknown): string | undefined => {
+  if (typeof value !== "string") return undefined;
+  const text = cheerio.load(value).text().replace(/\s+/g, " ").trim();
+  return text || undefined;
+};
+
+const parseDate = (value: unknown): Date | undefined => {
+  if (typeof value !== "string" || !value.trim()) return undefined;
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const isArticle = (node: JsonObject): boolean =>
+  asArray(node["@type"]).some(
+    (type) => typeof type === "string" && ARTICLE_TYPES.has(type)
+  );
+
+// Names of schema.org Person/Organization values, or plain strings
+const readNames = (value: unknown): string[] =>
+  asArray(value)
+    .map((item) => cleanText(isObject(item) ? item.name : item))
+    .filter((name): name is string => !!name);
+
+// URL of a schema.org ImageObject, a plain URL or the first of a list
+const readImage = (value: unknown): string | undefined => {
+  for (const item of asArray(value)) {
+    const url = isObject(item) ? item.url ?? item.contentUrl : item;
+    if (typeof url === "string" && url.trim()) return url.trim();
+  }
+  return undefined;
+};
+
+// Flattens JSON-LD documents, lists and @graph containers into their nodes
+const collectNodes = (
+  value: unknown,
+  nodes: JsonObject[] = []
+): JsonObject[] => {
+  for (const item of asArray(value)) {
+    if (!isObject(item)) continue;
+    nodes.push(item);
+    if (item["@graph"] !== undefined) {
+      collectNodes(item["@graph"], nodes);
+    }
+  }
+  return nodes;
+};
+
+// First Article (or subtype) described in the page's JSON-LD scripts
+function findJsonLdArticle($: cheerio.CheerioAPI): JsonObject | undefined {
+  for (const script of $('script[type="application/ld+json"]').toArray()) {
+    let data: unknown;
+    try {
+      data = JSON.parse($(script).text());
+    } catch (error) {
+      logger.debug("Ignoring invalid JSON-LD script:", error);
+      continue;
+    }
+    const article = collectNodes(data).find(isArticle);
+    if (article) return article;
+  }
+  return undefined;
+}
+
+// Reads article metadata from JSON-LD, then OpenGraph and article:* meta
+// tags, then plain meta tags and the first <time datetime> element
+export function extractMetadata($: cheerio.CheerioAPI): ArticleMetadata {
+  const article = findJsonLdArticle($) ?? {};
+
+  const meta = (...names: string[]): string | undefined => {
+    for (const name of names) {
+      const content = $(`meta[property="${name}"], meta[name="${name}"]`)
+        .first()
+        .attr("content")
+        ?.trim();
+      if (content) return content;
+    }
+    return undefined;
+  };
+  const metaValues = (name: string): string[] =>
+    $(`meta[property="${name}"], meta[name="${name}"]`)
+      .map((_, element) => $(element).attr("content")?.trim() ?? "")
+      .get()
+      .filter(Boolean);
+
+  // article:author is often a profile URL rather than a name
+  const metaAuthor = [meta("article:author"), meta("author")].find(
+    (author) => author && !/^https?:\/\//i.test(author)
+  );
+
+  const jsonLdTags = asArray(article.keywords).flatMap((keywords) =>
+    typeof keywords === "string" ? keywords.split(",") : []
+  );
+
+  return {
+    title:
+      cleanText(article.headline) ??
+      cleanText(article.name) ??
+      meta("og:title", "twitter:title") ??
+      ($("title").first().text().trim() || undefined),
+    author: readNames(article.author).join(", ") || metaAuthor,
+    published:
+      parseDate(article.datePublished) ??
+      parseDate(meta("article:published_time", "date", "pubdate")) ??
+      parseDate($("time[datetime]").first().attr("datetime")),
+    modified:
+      parseDate(article.dateModified) ??
+      parseDate(meta("article:modified_time", "og:updated_time")),
+    description:
+      cleanText(article.description) ??
+      meta("og:description", "twitter:description", "description"),
+    image:
+      readImage(article.image) ??
+      meta("og:image", "og:image:url", "twitter:image"),
+    section:
+      asArray(article.articleSection).map(cleanText).find(Boolean) ??
+      meta("article:section"),
+    tags: [
+      ...new Set(
+        [...jsonLdTags.map(cleanText), ...metaValues("article:tag")].filter(
+          (tag): tag is string => !!tag
+        )
+      ),
+    ],
+  };
+}
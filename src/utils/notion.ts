@@ -1,315 +1,391 @@
-import parse, { HTMLElement, TextNode } from "node-html-parser";
-
-import { Client } from "@notionhq/client";
+import {
+  APIErrorCode,
+  APIResponseError,
+  Client,
+  isFullDatabase,
+  isFullPage,
+  iteratePaginatedAPI,
+} from "@notionhq/client";
 import type {
   BlockObjectRequest,
   CreatePageParameters,
+  QueryDatabaseParameters,
 } from "@notionhq/client/build/src/api-endpoints";
-import { MAX_BODY_LENGTH, MAX_RICH_TEXT_LENGTH } from "./constants";
 import { config } from "../config";
 import { logger } from "./logger";
+import { htmlToNotionBlocks } from "./htmlToNotion";
+import { getChildren, prepareBlockBatches } from "./notionBlocks";
+import { ImageRehoster } from "./imageRehoster";
+import { rateLimitedFetch, withNotionRetry } from "./notionRequests";
+import {
+  buildProperties,
+  buildPropertySchema,
+  readPropertyText,
+} from "./notionProperties";
+import type { NotionPropertyMapping } from "../config/notionProperties";
 import { IEntry } from "../models";
 
-type RichText = {
-  type: "text";
-  text: {
-    content: string;
-    link?: { url: string };
-  };
-  annotations?: {
-    bold?: boolean;
-    italic?: boolean;
-    underline?: boolean;
-  };
-};
+export interface NotionPageRef {
+  id: string;
+  url: string;
+}
+
+// Outcome of writing an entry's content to a page
+export interface NotionBodyResult {
+  droppedBlocks: number; // Nested blocks beyond the API limits
+  complete: boolean; // False when appending the remaining blocks failed
+}
+
+export interface NotionCreatedPage extends NotionPageRef {
+  body: NotionBodyResult;
+}
+
+export interface NotionDatabasePage extends NotionPageRef {
+  link: string | null;
+  createdTime: string;
+}
+
+export interface DatabaseSchemaIssue {
+  property: string;
+  expected: string;
+  actual: string | null; // null when the property is missing
+}
+
+type PageCover = NonNullable<CreatePageParameters["cover"]>;
+type PageIcon = NonNullable<CreatePageParameters["icon"]>;
+type PageEmoji = Extract<PageIcon, { emoji: unknown }>["emoji"];
 
 export class NotionClient {
   private notion: Client;
   private databaseId: string;
+  private imageRehoster: ImageRehoster;
 
   constructor() {
     this.notion = new Client({
       auth: config.notion.token,
+      fetch: rateLimitedFetch,
     });
     this.databaseId = config.notion.databaseId;
+    this.imageRehoster = new ImageRehoster(this.notion);
+  }
+
+  // Convert the entry HTML to Notion blocks, logging what couldn't be converted
+  private async buildContentBlocks(
+    entry: IEntry
+  ): Promise<BlockObjectRequest[]> {
+    if (!entry.content) return [];
+
+    const { blocks, unsupportedElements } = htmlToNotionBlocks(entry.content);
+    const unsupported = Object.entries(unsupportedElements);
+    if (unsupported.length > 0) {
+      logger.warn(
+        `Unsupported HTML elements in entry ${entry.entryId}: ${unsupported
+          .map(([tag, count]) => `${tag} (${count})`)
+          .join(", ")}`
+      );
+    }
+
+    if (config.notion.rehostImages) {
+      await this.rehostImages(blocks, entry.link);
+    }
+    return blocks;
+  }
+
+  // Swaps external images for uploaded copies, leaving the ones that can't
+  // be rehosted as they are
+  private async rehostImages(
+    blocks: BlockObjectRequest[],
+    referer: string
+  ): Promise<void> {
+    for (const block of blocks) {
+      if ("image" in block && "external" in block.image) {
+        const fileUploadId = await this.imageRehoster.upload(
+          block.image.external.url,
+          referer
+        );
+        if (fileUploadId) {
+          block.image = {
+            type: "file_upload",
+            file_upload: { id: fileUploadId },
+            caption: block.image.caption,
+          };
+        }
+      }
+      await this.rehostImages(getChildren(block), referer);
+    }
+  }
+
+  // Page cover from the entry's lead image, uploaded when images are rehosted
+  private async buildCover(entry: IEntry): Promise<PageCover | undefined> {
+    if (!entry.leadImage) return undefined;
+
+    if (config.notion.rehostImages) {
+      const fileUploadId = await this.imageRehoster.upload(
+        entry.leadImage,
+        entry.link
+      );
+      if (fileUploadId) {
+        return { type: "file_upload", file_upload: { id: fileUploadId } };
+      }
+    }
+    return { type: "external", external: { url: entry.leadImage } };
+  }
+
+  // Page icon configured on the entry's source, an emoji or an image URL
+  private buildIcon(entry: IEntry): PageIcon | undefined {
+    const icon = config.sources.find(({ name }) => name === entry.source)?.icon;
+    if (!icon) return undefined;
+
+    return /^https?:/i.test(icon)
+      ? { type: "external", external: { url: icon } }
+      : { type: "emoji", emoji: icon as PageEmoji };
   }
 
-  public async createPage(entry: IEntry): Promise<boolean> {
+  // Appends blocks in request-sized batches, then the children that didn't
+  // fit in their parent block. Returns the number of blocks left out.
+  private async appendBlocks(
+    parentId: string,
+    blocks: BlockObjectRequest[]
+  ): Promise<number> {
+    let droppedBlocks = 0;
+
+    for (const batch of prepareBlockBatches(blocks)) {
+      // Retrying an append that timed out could duplicate the blocks
+      const response = await withNotionRetry(
+        () =>
+          this.notion.blocks.children.append({
+            block_id: parentId,
+            children: batch.blocks,
+          }),
+        { retryTimeouts: false }
+      );
+      droppedBlocks += batch.dropped;
+
+      for (const [index, children] of batch.overflow) {
+        droppedBlocks += await this.appendBlocks(
+          response.results[index].id,
+          children
+        );
+      }
+    }
+
+    return droppedBlocks;
+  }
+
+  // Returns null when Notion isn't configured. API errors are rethrown so
+  // the sync can tell rejected requests from transient failures.
+  public async createPage(entry: IEntry): Promise<NotionCreatedPage | null> {
     try {
       if (!config.notion.token || !this.databaseId) {
         logger.error("Notion token or database ID not configured");
-        return false;
+        return null;
       }
 
+      const blocks = await this.buildContentBlocks(entry);
+
+      // The first batch is sent with the page unless some of its children
+      // must be appended to their parent block afterwards
+      const [firstBatch] = prepareBlockBatches(blocks);
+      const initialBatch =
+        firstBatch && firstBatch.overflow.size === 0 ? firstBatch : null;
+
       const noteBody: CreatePageParameters = {
         parent: {
           type: "database_id",
           database_id: this.databaseId,
         },
-        properties: {
-          title: {
-            title: [
-              {
-                text: {
-                  content: entry.title ?? "",
-                },
-              },
-            ],
-          },
-          author: {
-            rich_text: [
-              {
-                text: {
-                  content: entry.author ?? "",
-                },
-              },
-            ],
-          },
-          link: {
-            url: entry.link ?? "",
-          },
-          entryDate: {
-            date: {
-              start: entry.entryDate.toISOString(),
-            },
-          },
-          summary: {
-            rich_text: [
-              {
-                text: {
-                  content: entry.summary ?? "",
-                },
-              },
-            ],
-          },
-        },
+        properties: buildProperties(config.notion.properties, entry),
+        cover: await this.buildCover(entry),
+        icon: this.buildIcon(entry),
+        children: initialBatch?.blocks ?? [],
+      };
 
-        children: [],
+      // A create that timed out may still have made the page, the sync
+      // adopts it by its link on the next attempt instead
+      const page = await withNotionRetry(
+        () => this.notion.pages.create(noteBody),
+        { retryTimeouts: false }
+      );
+      const body: NotionBodyResult = {
+        droppedBlocks: initialBatch?.dropped ?? 0,
+        complete: true,
       };
 
-      // Parse HTML content and convert it to Notion blocks
-      if (entry.content) {
-        const root = parse(entry.content);
-        const contentBlocks: BlockObjectRequest[] = [];
-
-        const processNode = (
-          node: HTMLElement | TextNode,
-          richTextArray: RichText[] = []
-        ): void => {
-          if (node instanceof TextNode) {
-            const textContent = node.text.trim();
-            if (textContent) {
-              richTextArray.push({
-                type: "text",
-                text: {
-                  content: textContent,
-                },
-              });
-            }
-          } else if (node instanceof HTMLElement) {
-            switch (node.tagName) {
-              case "P": {
-                const paragraphRichText: RichText[] = [];
-                node.childNodes.forEach((child) => {
-                  if (
-                    child instanceof HTMLElement ||
-                    child instanceof TextNode
-                  ) {
-                    processNode(child, paragraphRichText);
-                  }
-                });
-                if (paragraphRichText.length > 0) {
-                  let currentRichText: RichText[] = [];
-                  let currentLength = 0;
-
-                  paragraphRichText.forEach((richText) => {
-                    const textLength = richText.text.content.length;
-
-                    if (currentLength + textLength > MAX_RICH_TEXT_LENGTH) {
-                      // Push the current paragraph block and reset
-                      contentBlocks.push({
-                        object: "block",
-                        type: "paragraph",
-                        paragraph: {
-                          rich_text: currentRichText,
-                        },
-                      });
-                      currentRichText = [];
-                      currentLength = 0;
-                    }
-
-                    currentRichText.push(richText);
-                    currentLength += textLength;
-                  });
-
-                  // Push the remaining rich text as a paragraph block
-                  if (currentRichText.length > 0) {
-                    contentBlocks.push({
-                      object: "block",
-                      type: "paragraph",
-                      paragraph: {
-                        rich_text: currentRichText,
-                      },
-                    });
-                  }
-                }
-                break;
-              }
-              case "A": {
-                const linkText = node.text.trim();
-                const href = node.getAttribute("href") || "";
-                if (linkText) {
-                  if (
-                    richTextArray.length > 0 &&
-                    !richTextArray[
-                      richTextArray.length - 1
-                    ].text.content.endsWith(" ")
-                  ) {
-                    richTextArray.push({
-                      type: "text",
-                      text: {
-                        content: " ",
-                      },
-                    });
-                  }
-                  richTextArray.push({
-                    type: "text",
-                    text: {
-                      content: linkText,
-                      link: { url: href },
-                    },
-                  });
-                  if (
-                    richTextArray.length > 0 &&
-                    !richTextArray[
-                      richTextArray.length - 1
-                    ].text.content.endsWith(" ")
-                  ) {
-                    richTextArray.push({
-                      type: "text",
-                      text: {
-                        content: " ",
-                      },
-                    });
-                  }
-                }
-                break;
-              }
-              case "IMG": {
-                const src = node.getAttribute("src")?.toLocaleLowerCase() || "";
-                if (src) {
-                  contentBlocks.push({
-                    object: "block",
-                    type: "image",
-                    image: {
-                      type: "external",
-                      external: { url: src },
-                    },
-                  });
-                }
-                break;
-              }
-              case "B":
-              case "STRONG":
-              case "I":
-              case "EM":
-              case "U": {
-                const annotation: RichText["annotations"] = {};
-                if (node.tagName === "B" || node.tagName === "STRONG") {
-                  annotation.bold = true;
-                } else if (node.tagName === "I" || node.tagName === "EM") {
-                  annotation.italic = true;
-                } else if (node.tagName === "U") {
-                  annotation.underline = true;
-                }
-
-                const childRichText: RichText[] = [];
-                node.childNodes.forEach((child) => {
-                  if (
-                    child instanceof HTMLElement ||
-                    child instanceof TextNode
-                  ) {
-                    processNode(child, childRichText);
-                  }
-                });
-
-                childRichText.forEach((richText) => {
-                  richText.annotations = {
-                    ...richText.annotations,
-                    ...annotation,
-                  };
-                });
-
-                if (
-                  richTextArray.length > 0 &&
-                  !richTextArray[
-                    richTextArray.length - 1
-                  ].text.content.endsWith(" ")
-                ) {
-                  richTextArray.push({
-                    type: "text",
-                    text: {
-                      content: " ",
-                    },
-                  });
-                }
-
-                richTextArray.push(...childRichText);
-
-                if (
-                  childRichText.length > 0 &&
-                  !childRichText[
-                    childRichText.length - 1
-                  ].text.content.endsWith(" ")
-                ) {
-                  richTextArray.push({
-                    type: "text",
-                    text: {
-                      content: " ",
-                    },
-                  });
-                }
-                break;
-              }
-              default:
-                node.childNodes.forEach((child) => {
-                  if (
-                    child instanceof HTMLElement ||
-                    child instanceof TextNode
-                  ) {
-                    processNode(child, richTextArray);
-                  }
-                });
-                break;
-            }
-          }
-        };
+      // Long articles don't fit in a single request
+      const remainingBlocks = blocks.slice(initialBatch?.blocks.length ?? 0);
+      try {
+        body.droppedBlocks += await this.appendBlocks(page.id, remainingBlocks);
+      } catch (error) {
+        body.complete = false;
+        logger.error(
+          `Failed to append content to Notion page for entry ${entry.entryId}:`,
+          error
+        );
+      }
 
-        root.childNodes.forEach((child) => {
-          if (child instanceof HTMLElement || child instanceof TextNode) {
-            processNode(child);
-          }
-        });
+      logger.info(
+        `Successfully created Notion page for entry: ${entry.entryId}`
+      );
+      return { id: page.id, url: isFullPage(page) ? page.url : "", body };
+    } catch (error) {
+      logger.error(
+        `Failed to create Notion page for entry ${entry.entryId}:`,
+        error
+      );
+      throw error;
+    }
+  }
 
-        // Limit blocks to MAX_BODY_LENGTH
-        noteBody.children = contentBlocks.slice(0, MAX_BODY_LENGTH);
+  // Overwrites the properties and body of an existing page with the entry.
+  // Returns null without a page ID and rethrows API errors like createPage.
+  public async updatePage(entry: IEntry): Promise<NotionBodyResult | null> {
+    try {
+      if (!config.notion.token || !entry.notionPageId) {
+        logger.error(
+          `Notion token or page ID missing for entry: ${entry.entryId}`
+        );
+        return null;
       }
 
-      if (noteBody.children && noteBody.children.length > MAX_BODY_LENGTH)
-        noteBody.children = noteBody.children?.slice(0, MAX_BODY_LENGTH);
+      const pageId = entry.notionPageId;
+
+      // Build the new body, uploading its images, before anything on the
+      // page is changed, so a failure here leaves the old body in place
+      const blocks = await this.buildContentBlocks(entry);
+      const cover = await this.buildCover(entry);
 
-      await this.notion.pages.create(noteBody);
+      await withNotionRetry(() =>
+        this.notion.pages.update({
+          page_id: pageId,
+          properties: buildProperties(config.notion.properties, entry),
+          cover,
+          icon: this.buildIcon(entry),
+        })
+      );
+
+      // Replace the body: remove every existing top-level block first
+      const existingBlockIds: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const response = await withNotionRetry(() =>
+          this.notion.blocks.children.list({
+            block_id: pageId,
+            start_cursor: cursor,
+          })
+        );
+        existingBlockIds.push(...response.results.map((block) => block.id));
+        cursor = response.next_cursor ?? undefined;
+      } while (cursor);
+
+      for (const blockId of existingBlockIds) {
+        await withNotionRetry(() =>
+          this.notion.blocks.delete({ block_id: blockId })
+        );
+      }
+
+      const body: NotionBodyResult = { droppedBlocks: 0, complete: true };
+      try {
+        body.droppedBlocks = await this.appendBlocks(pageId, blocks);
+      } catch (error) {
+        body.complete = false;
+        logger.error(
+          `Failed to append content to Notion page for entry ${entry.entryId}:`,
+          error
+        );
+      }
 
       logger.info(
-        `Successfully created Notion page for entry: ${entry.entryId}`
+        `Successfully updated Notion page for entry: ${entry.entryId}`
       );
-      return true;
+      return body;
     } catch (error) {
       logger.error(
-        `Failed to create Notion page for entry ${entry.entryId}:`,
+        `Failed to update Notion page for entry ${entry.entryId}:`,
         error
       );
-      return false;
+      throw error;
+    }
+  }
+
+  // Property the article link is written to, used to match pages to entries
+  private getLinkMapping(): NotionPropertyMapping | undefined {
+    return config.notion.properties.find(({ field }) => field === "link");
+  }
+
+  // Lists every live (non-archived) page of the database with its link property
+  public async listDatabasePages(): Promise<NotionDatabasePage[]> {
+    const pages: NotionDatabasePage[] = [];
+    const linkMapping = this.getLinkMapping();
+
+    for await (const page of iteratePaginatedAPI(
+      (args: QueryDatabaseParameters) =>
+        withNotionRetry(() => this.notion.databases.query(args)),
+      {
+        database_id: this.databaseId,
+      }
+    )) {
+      if (!isFullPage(page)) continue;
+      const linkProperty = linkMapping
+        ? page.properties[linkMapping.property]
+        : undefined;
+      pages.push({
+        id: page.id,
+        url: page.url,
+        link: linkProperty ? readPropertyText(linkProperty) : null,
+        createdTime: page.created_time,
+      });
+    }
+
+    return pages;
+  }
+
+  // Looks up a live page by its link property, oldest first when duplicated
+  public async findPageByLink(link: string): Promise<NotionPageRef | null> {
+    const linkMapping = this.getLinkMapping();
+    if (!linkMapping) return null;
+
+    const { property, type } = linkMapping;
+    const response = await withNotionRetry(() =>
+      this.notion.databases.query({
+        database_id: this.databaseId,
+        filter:
+          type === "url"
+            ? { property, url: { equals: link } }
+            : type === "title"
+            ? { property, title: { equals: link } }
+            : { property, rich_text: { equals: link } },
+        sorts: [{ timestamp: "created_time", direction: "ascending" }],
+        page_size: 1,
+      })
+    );
+
+    const page = response.results.find(isFullPage);
+    return page ? { id: page.id, url: page.url } : null;
+  }
+
+  public async archivePage(pageId: string): Promise<void> {
+    await withNotionRetry(() =>
+      this.notion.pages.update({ page_id: pageId, archived: true })
+    );
+  }
+
+  // Returns false when the page was archived, trashed or no longer exists.
+  // Other errors are rethrown, so an outage isn't mistaken for missing pages.
+  public async isPageLive(pageId: string): Promise<boolean> {
+    try {
+      const page = await withNotionRetry(() =>
+        this.notion.pages.retrieve({ page_id: pageId })
+      );
+      return isFullPage(page) && !page.archived && !page.in_trash;
+    } catch (error) {
+      if (
+        APIResponseError.isAPIResponseError(error) &&
+        error.code === APIErrorCode.ObjectNotFound
+      ) {
+        logger.debug(`Notion page ${pageId} not found:`, error);
+        return false;
+      }
+      throw error;
     }
   }
 
@@ -320,9 +396,9 @@ export class NotionClient {
         return false;
       }
 
-      await this.notion.databases.retrieve({
-        database_id: this.databaseId,
-      });
+      await withNotionRetry(() =>
+        this.notion.databases.retrieve({ database_id: this.databaseId })
+      );
 
       logger.info("Notion connection test successful");
       return true;
@@ -332,15 +408,83 @@ export class NotionClient {
     }
   }
 
-  public async createDatabaseIfNotExists(): Promise<void> {
+  // Compares the live database properties with the configured mapping
+  public async validateDatabaseSchema(): Promise<DatabaseSchemaIssue[]> {
+    const database = await withNotionRetry(() =>
+      this.notion.databases.retrieve({ database_id: this.databaseId })
+    );
+    if (!isFullDatabase(database)) {
+      throw new Error(`Cannot read the schema of database ${this.databaseId}`);
+    }
+
+    const issues: DatabaseSchemaIssue[] = [];
+    for (const { property, type } of config.notion.properties) {
+      const actual = database.properties[property]?.type ?? null;
+      if (actual !== type) {
+        issues.push({ property, expected: type, actual });
+      }
+    }
+    return issues;
+  }
+
+  // Returns the ID of the configured database, creating it under
+  // NOTION_PARENT_PAGE_ID when no database is configured or it can't be found
+  public async createDatabaseIfNotExists(): Promise<string | null> {
     try {
-      // This would require a parent page ID and is more complex
-      // For now, we assume the database exists
-      logger.info(
-        "Database creation not implemented - please create the Notion database manually"
+      if (!config.notion.token) {
+        logger.error("Notion token not configured");
+        return null;
+      }
+
+      if (this.databaseId) {
+        try {
+          await withNotionRetry(() =>
+            this.notion.databases.retrieve({ database_id: this.databaseId })
+          );
+          return this.databaseId;
+        } catch (error) {
+          if (
+            !APIResponseError.isAPIResponseError(error) ||
+            error.code !== APIErrorCode.ObjectNotFound
+          ) {
+            throw error;
+          }
+          logger.warn(
+            `Notion database ${this.databaseId} not found or not shared with the integration`
+          );
+        }
+      }
+
+      if (!config.notion.parentPageId) {
+        logger.error(
+          "NOTION_PARENT_PAGE_ID is required to create the Notion database"
+        );
+        return null;
+      }
+
+      const database = await withNotionRetry(
+        () =>
+          this.notion.databases.create({
+            parent: { type: "page_id", page_id: config.notion.parentPageId },
+            title: [
+              { type: "text", text: { content: config.notion.databaseTitle } },
+            ],
+            properties: Object.fromEntries(
+              config.notion.properties.map(({ property, type }) => [
+                property,
+                buildPropertySchema(type),
+              ])
+            ),
+          }),
+        { retryTimeouts: false }
       );
+
+      this.databaseId = database.id;
+      logger.info(`Created Notion database: ${database.id}`);
+      return database.id;
     } catch (error) {
       logger.error("Failed to create Notion database:", error);
+      return null;
     }
   }
 }
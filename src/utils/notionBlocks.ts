@@ -0,0 +1,97 @@
+import type { BlockObjectRequest } from "@notionhq/client/build/src/api-endpoints";
+import {
+  MAX_BLOCK_ELEMENTS_PER_REQUEST,
+  MAX_BLOCKS_PER_REQUEST,
+} from "./constants";
+
+// A request-sized group of blocks to append to a page or block
+export interface BlockBatch {
+  blocks: BlockObjectRequest[];
+  // Children that didn't fit in their parent, by index of the parent in
+  // blocks, to be appended to it once its ID is known
+  overflow: Map<number, BlockObjectRequest[]>;
+  dropped: number; // Nested blocks beyond what the API can create
+}
+
+type BlockContent = { children?: BlockObjectRequest[] };
+
+export const getChildren = (
+  block: BlockObjectRequest
+): BlockObjectRequest[] => {
+  const content = block.type
+    ? (block as Record<string, unknown>)[block.type]
+    : undefined;
+  return (content as BlockContent | undefined)?.children ?? [];
+};
+
+const withChildren = (
+  block: BlockObjectRequest,
+  children: BlockObjectRequest[]
+): BlockObjectRequest => {
+  const type = block.type as string;
+  const content = (block as Record<string, unknown>)[type] as BlockContent;
+  return { ...block, [type]: { ...content, children } } as BlockObjectRequest;
+};
+
+// Keeps as many children as one request allows: the rest of a block's
+// children become overflow, and grandchildren over the limit are dropped
+// since the append response only returns the IDs of top-level blocks
+const trimBlock = (block: BlockObjectRequest) => {
+  const children = getChildren(block);
+  if (children.length === 0) {
+    return { block, overflow: [], dropped: 0, size: 1 };
+  }
+
+  let dropped = 0;
+  let size = 1;
+  const kept = children.slice(0, MAX_BLOCKS_PER_REQUEST).map((child) => {
+    const grandchildren = getChildren(child);
+    size += 1 + Math.min(grandchildren.length, MAX_BLOCKS_PER_REQUEST);
+    if (grandchildren.length <= MAX_BLOCKS_PER_REQUEST) return child;
+    dropped += grandchildren.length - MAX_BLOCKS_PER_REQUEST;
+    return withChildren(child, grandchildren.slice(0, MAX_BLOCKS_PER_REQUEST));
+  });
+
+  return {
+    block: withChildren(block, kept),
+    overflow: children.slice(MAX_BLOCKS_PER_REQUEST),
+    dropped,
+    size,
+  };
+};
+
+// Splits blocks into batches within the per-request limits on top-level
+// blocks, children per block and total block elements
+export function prepareBlockBatches(
+  blocks: BlockObjectRequest[]
+): BlockBatch[] {
+  const batches: BlockBatch[] = [];
+  let current: BlockBatch = { blocks: [], overflow: new Map(), dropped: 0 };
+  let elements = 0;
+
+  for (const original of blocks) {
+    const { block, overflow, dropped, size } = trimBlock(original);
+
+    if (
+      current.blocks.length >= MAX_BLOCKS_PER_REQUEST ||
+      (current.blocks.length > 0 &&
+        elements + size > MAX_BLOCK_ELEMENTS_PER_REQUEST)
+    ) {
+      batches.push(current);
+      current = { blocks: [], overflow: new Map(), dropped: 0 };
+      elements = 0;
+    }
+
+    if (overflow.length > 0) {
+      current.overflow.set(current.blocks.length, overflow);
+    }
+    current.blocks.push(block);
+    current.dropped += dropped;
+    elements += size;
+  }
+
+  if (current.blocks.length > 0) {
+    batches.push(current);
+  }
+  return batches;
+}
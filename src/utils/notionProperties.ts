@@ -0,0 +1,164 @@
+import parse from "node-html-parser";
+import type {
+  CreateDatabaseParameters,
+  CreatePageParameters,
+  PageObjectResponse,
+} from "@notionhq/client/build/src/api-endpoints";
+import type {
+  EntryField,
+  NotionPropertyMapping,
+  NotionPropertyType,
+} from "../config/notionProperties";
+import { IEntry } from "../models";
+import {
+  MAX_FILE_NAME_LENGTH,
+  MAX_MULTI_SELECT_OPTIONS,
+  MAX_SELECT_OPTION_LENGTH,
+  MAX_URL_LENGTH,
+} from "./constants";
+import { textToRichText } from "./richText";
+
+type PropertyValue = NonNullable<CreatePageParameters["properties"]>[string];
+type PropertySchema = CreateDatabaseParameters["properties"][string];
+type FieldValue = string | string[] | number | boolean | Date | null;
+
+export function countWords(html: string): number {
+  const text = parse(html).structuredText.trim();
+  return text ? text.split(/\s+/).length : 0;
+}
+
+export function getFieldValue(entry: IEntry, field: EntryField): FieldValue {
+  switch (field) {
+    case "entryDate":
+      return entry.entryDate ?? null;
+    case "tags":
+      return entry.tags ?? [];
+    case "wordCount":
+      return countWords(entry.content ?? "");
+    case "edited":
+      return (entry.revisions?.length ?? 0) > 0;
+    default:
+      return entry[field] ?? null;
+  }
+}
+
+const toText = (value: FieldValue): string => {
+  if (value === null) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.join(", ");
+  return String(value);
+};
+
+// Select option names can't contain commas
+const toOptionName = (value: string): string =>
+  value.replace(/,/g, " ").trim().slice(0, MAX_SELECT_OPTION_LENGTH);
+
+// Files are listed under the last segment of their URL path
+const toFileName = (url: string): string => {
+  let name = "";
+  try {
+    name = decodeURIComponent(new URL(url).pathname.split("/").pop() ?? "");
+  } catch {
+    /* ignore */
+  }
+  return (name || "image").slice(0, MAX_FILE_NAME_LENGTH);
+};
+
+export function buildPropertyValue(
+  type: NotionPropertyType,
+  value: FieldValue
+): PropertyValue {
+  switch (type) {
+    case "title":
+      return { title: textToRichText(toText(value)) };
+    case "rich_text":
+      return { rich_text: textToRichText(toText(value)) };
+    case "url": {
+      // A cut URL would point somewhere else, so long ones are left out
+      const url = toText(value);
+      return { url: url && url.length <= MAX_URL_LENGTH ? url : null };
+    }
+    case "date":
+      return {
+        date: value instanceof Date ? { start: value.toISOString() } : null,
+      };
+    case "select": {
+      const name = toOptionName(toText(value));
+      return { select: name ? { name } : null };
+    }
+    case "multi_select": {
+      const names = (Array.isArray(value) ? value : [toText(value)])
+        .map(toOptionName)
+        .filter(Boolean);
+      return {
+        multi_select: [...new Set(names)]
+          .slice(0, MAX_MULTI_SELECT_OPTIONS)
+          .map((name) => ({ name })),
+      };
+    }
+    case "number":
+      return { number: typeof value === "number" ? value : null };
+    case "checkbox":
+      return { checkbox: value === true };
+    case "files": {
+      const url = toText(value);
+      return {
+        files:
+          url && url.length <= MAX_URL_LENGTH
+            ? [{ type: "external", name: toFileName(url), external: { url } }]
+            : [],
+      };
+    }
+  }
+}
+
+export function buildProperties(
+  mappings: NotionPropertyMapping[],
+  entry: IEntry
+): CreatePageParameters["properties"] {
+  return Object.fromEntries(
+    mappings.map(({ field, property, type }) => [
+      property,
+      buildPropertyValue(type, getFieldValue(entry, field)),
+    ])
+  );
+}
+
+export function buildPropertySchema(type: NotionPropertyType): PropertySchema {
+  switch (type) {
+    case "title":
+      return { title: {} };
+    case "rich_text":
+      return { rich_text: {} };
+    case "url":
+      return { url: {} };
+    case "date":
+      return { date: {} };
+    case "select":
+      return { select: { options: [] } };
+    case "multi_select":
+      return { multi_select: { options: [] } };
+    case "number":
+      return { number: { format: "number" } };
+    case "checkbox":
+      return { checkbox: {} };
+    case "files":
+      return { files: {} };
+  }
+}
+
+// Plain-text value of a page property, for the types a link can be mapped to
+export function readPropertyText(
+  property: PageObjectResponse["properties"][string]
+): string | null {
+  switch (property.type) {
+    case "url":
+      return property.url;
+    case "title":
+      return property.title.map((text) => text.plain_text).join("") || null;
+    case "rich_text":
+      return property.rich_text.map((text) => text.plain_text).join("") || null;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,136 @@
+import {
+  APIErrorCode,
+  APIResponseError,
+  ClientErrorCode,
+  isNotionClientError,
+} from "@notionhq/client";
+import type { SupportedFetch } from "@notionhq/client/build/src/fetch-types";
+import { config } from "../config";
+import { logger } from "./logger";
+import { RateLimiter } from "./rateLimiter";
+
+export interface NotionRetryOptions {
+  maxAttempts: number;
+  retryDelay: number; // ms before the first retry, doubled on each further one
+  // False for requests that must not run twice, a timed out request may
+  // still have been applied
+  retryTimeouts: boolean;
+}
+
+// Failures worth sending the same request again for. Validation errors and
+// other rejected requests fail the same way every time.
+const RETRIABLE_ERROR_CODES: string[] = [
+  APIErrorCode.RateLimited,
+  APIErrorCode.ConflictError,
+  APIErrorCode.ServiceUnavailable,
+  APIErrorCode.InternalServerError,
+];
+
+// Gateway errors come back without a Notion error code
+const RETRIABLE_STATUSES = [502, 504];
+
+const defaultOptions = (): NotionRetryOptions => ({
+  maxAttempts: config.notion.maxRequestAttempts,
+  retryDelay: config.notion.requestRetryDelay,
+  retryTimeouts: true,
+});
+
+// Shared by every Notion client so that the sync, the reconcile job and
+// image uploads stay within the integration's rate limit together
+export const notionRateLimiter = new RateLimiter(
+  config.notion.requestsPerSecond,
+  config.notion.requestBurst
+);
+
+// Fetch for the Notion client that waits for the rate limiter before every
+// HTTP request, including each page of paginated calls and retries
+export const rateLimitedFetch: SupportedFetch = async (url, init) => {
+  await notionRateLimiter.acquire();
+  return fetch(url, init as RequestInit);
+};
+
+const readHeader = (headers: unknown, name: string): string | null => {
+  if (!headers || typeof headers !== "object") return null;
+  if ("get" in headers && typeof headers.get === "function") {
+    return headers.get(name) ?? null;
+  }
+  const value = Object.entries(headers).find(
+    ([key]) => key.toLowerCase() === name
+  )?.[1];
+  return typeof value === "string" ? value : null;
+};
+
+// Retry-After holds either a number of seconds or an HTTP date
+export function parseRetryAfter(
+  value: string | null,
+  now: number = Date.now()
+): number | null {
+  if (!value?.trim()) return null;
+  if (/^\d+(\.\d+)?$/.test(value.trim())) {
+    return Math.ceil(parseFloat(value) * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+export function isRetriableNotionError(
+  error: unknown,
+  retryTimeouts = true
+): boolean {
+  if (!isNotionClientError(error)) return false;
+  if (error.code === ClientErrorCode.RequestTimeout) return retryTimeouts;
+  return (
+    RETRIABLE_ERROR_CODES.includes(error.code) ||
+    ("status" in error && RETRIABLE_STATUSES.includes(error.status))
+  );
+}
+
+// Delay before retrying a failed request: what Notion asked for in
+// Retry-After, otherwise exponential backoff. Null when the request
+// shouldn't be retried.
+export function getRequestRetryDelay(
+  error: unknown,
+  attempt: number,
+  options: NotionRetryOptions = defaultOptions()
+): number | null {
+  if (
+    attempt >= options.maxAttempts ||
+    !isRetriableNotionError(error, options.retryTimeouts)
+  ) {
+    return null;
+  }
+  const retryAfter = APIResponseError.isAPIResponseError(error)
+    ? parseRetryAfter(readHeader(error.headers, "retry-after"))
+    : null;
+  return retryAfter ?? options.retryDelay * 2 ** (attempt - 1);
+}
+
+// Runs a Notion API call, retrying it while Notion is rate limiting,
+// busy or briefly unavailable. A rate limit pauses every other request too.
+export async function withNotionRetry<T>(
+  request: () => Promise<T>,
+  overrides: Partial<NotionRetryOptions> = {},
+  limiter: RateLimiter = notionRateLimiter
+): Promise<T> {
+  const options = { ...defaultOptions(), ...overrides };
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      const delay = getRequestRetryDelay(error, attempt, options);
+      if (delay === null) throw error;
+
+      const code = isNotionClientError(error) ? error.code : "error";
+      logger.warn(
+        `Notion request failed (${code}), retrying in ${delay}ms (attempt ${attempt}/${options.maxAttempts})`
+      );
+      if (
+        isNotionClientError(error) &&
+        error.code === APIErrorCode.RateLimited
+      ) {
+        limiter.pause(delay);
+      }
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
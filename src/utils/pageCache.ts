@@ -0,0 +1,115 @@
+import type { RawAxiosResponseHeaders, AxiosResponseHeaders } from "axios";
+import { mongo } from "mongoose";
+import { config } from "../config";
+import { IPageCache, PageCacheModel } from "../models";
+import { logger } from "./logger";
+
+type CachedValidators = Pick<IPageCache, "etag" | "lastModified">;
+
+const VALIDATOR_HEADERS: [keyof CachedValidators, string][] = [
+  ["etag", "etag"],
+  ["lastModified", "last-modified"],
+];
+
+const readHeader = (
+  headers: RawAxiosResponseHeaders | AxiosResponseHeaders,
+  name: string
+): string | undefined => {
+  const value = headers[name];
+  return typeof value === "string" && value ? value : undefined;
+};
+
+// Name MongoDB gives the TTL index on checkedAt
+const TTL_INDEX = "checkedAt_1";
+
+// The TTL index keeps the expiry it was created with, creating it again with
+// another PAGE_CACHE_DAYS fails, so the existing index is changed in place
+export async function syncPageCacheTtl(): Promise<void> {
+  const expireAfterSeconds = config.crawler.pageCacheDays * 24 * 60 * 60;
+  try {
+    const indexes = await PageCacheModel.collection.indexes();
+    const ttlIndex = indexes.find((index) => index.name === TTL_INDEX);
+    if (!ttlIndex || ttlIndex.expireAfterSeconds === expireAfterSeconds) return;
+
+    await PageCacheModel.db.db?.command({
+      collMod: PageCacheModel.collection.collectionName,
+      index: { name: TTL_INDEX, expireAfterSeconds },
+    });
+    logger.info(
+      `Cached pages now expire ${config.crawler.pageCacheDays} days after their last request`
+    );
+  } catch (error) {
+    // Nothing to change before the first page is cached
+    if (
+      error instanceof mongo.MongoServerError &&
+      error.codeName === "NamespaceNotFound"
+    ) {
+      return;
+    }
+    logger.warn("Failed to update the page cache expiry:", error);
+  }
+}
+
+// Headers that let the server answer 304 Not Modified when the cached copy
+// is still current
+export function conditionalHeaders(
+  cached: CachedValidators | null
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (cached?.etag) headers["If-None-Match"] = cached.etag;
+  if (cached?.lastModified) headers["If-Modified-Since"] = cached.lastModified;
+  return headers;
+}
+
+// Article HTML stored by URL. Failures are logged and never fail a scrape,
+// the page is simply downloaded again.
+export class PageCache {
+  public async get(url: string): Promise<IPageCache | null> {
+    try {
+      return await PageCacheModel.findOne({ url });
+    } catch (error) {
+      logger.warn(`Failed to read cached page ${url}:`, error);
+      return null;
+    }
+  }
+
+  public async save(
+    url: string,
+    html: string,
+    headers: RawAxiosResponseHeaders | AxiosResponseHeaders
+  ): Promise<void> {
+    const now = new Date();
+    const validators: Record<string, string> = {};
+    const missing: Record<string, 1> = {};
+    for (const [field, header] of VALIDATOR_HEADERS) {
+      const value = readHeader(headers, header);
+      if (value) {
+        validators[field] = value;
+      } else {
+        // A validator the server stopped sending must not be sent back
+        missing[field] = 1;
+      }
+    }
+    try {
+      await PageCacheModel.updateOne(
+        { url },
+        {
+          $set: { html, fetchedAt: now, checkedAt: now, ...validators },
+          $unset: missing,
+        },
+        { upsert: true }
+      );
+    } catch (error) {
+      logger.warn(`Failed to cache page ${url}:`, error);
+    }
+  }
+
+  // Records that the cached copy was confirmed to be current
+  public async markChecked(url: string): Promise<void> {
+    try {
+      await PageCacheModel.updateOne({ url }, { checkedAt: new Date() });
+    } catch (error) {
+      logger.warn(`Failed to update cached page ${url}:`, error);
+    }
+  }
+}
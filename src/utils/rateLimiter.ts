@@ -0,0 +1,55 @@
+const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+// Token bucket: allows bursts of up to `burst` requests, then one request
+// every 1/ratePerSecond seconds. Callers are served in the order they ask.
+export class RateLimiter {
+  private ratePerSecond: number;
+  private burst: number;
+  private tokens: number;
+  private refilledAt: number;
+  private pausedUntil = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(ratePerSecond: number, burst: number = ratePerSecond) {
+    this.ratePerSecond = Math.max(ratePerSecond, Number.MIN_VALUE);
+    this.burst = Math.max(1, burst);
+    this.tokens = this.burst;
+    this.refilledAt = Date.now();
+  }
+
+  // Resolves when the next request may be sent
+  public acquire(): Promise<void> {
+    const turn = this.queue.then(() => this.takeToken());
+    this.queue = turn;
+    return turn;
+  }
+
+  // Holds every request for the given time, e.g. when the API asks to
+  // retry after a delay
+  public pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  private async takeToken(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        await sleep(this.pausedUntil - now);
+        continue;
+      }
+
+      this.tokens = Math.min(
+        this.burst,
+        this.tokens + ((now - this.refilledAt) / 1000) * this.ratePerSecond
+      );
+      this.refilledAt = now;
+
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000));
+    }
+  }
+}
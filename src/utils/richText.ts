@@ -0,0 +1,73 @@
+import {
+  MAX_RICH_TEXT_ITEMS,
+  MAX_RICH_TEXT_LENGTH,
+  MAX_URL_LENGTH,
+} from "./constants";
+
+export type RichText = {
+  type: "text";
+  text: {
+    content: string;
+    link?: { url: string };
+  };
+  annotations?: {
+    bold?: boolean;
+    italic?: boolean;
+    strikethrough?: boolean;
+    underline?: boolean;
+    code?: boolean;
+  };
+};
+
+// Splits text into pieces of at most maxLength characters, breaking after
+// the last whitespace of each piece when there is one. Joining the pieces
+// gives back the original text.
+export function splitText(
+  text: string,
+  maxLength: number = MAX_RICH_TEXT_LENGTH
+): string[] {
+  const pieces: string[] = [];
+  let rest = text;
+
+  while (rest.length > maxLength) {
+    const window = rest.slice(0, maxLength);
+    const lastSpace = window.search(/\s\S*$/);
+    const end = lastSpace > 0 ? lastSpace + 1 : maxLength;
+    pieces.push(rest.slice(0, end));
+    rest = rest.slice(end);
+  }
+
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+// Splits spans longer than the API limit into consecutive spans with the
+// same annotations and link
+export function splitRichText(richText: RichText[]): RichText[] {
+  return richText.flatMap((item) => {
+    const { link, ...text } = item.text;
+    // Links over the URL limit are rejected, keep their text only
+    const keepLink = link && link.url.length <= MAX_URL_LENGTH;
+
+    return splitText(text.content).map((content) => ({
+      ...item,
+      text: keepLink ? { content, link } : { content },
+    }));
+  });
+}
+
+// Groups spans into arrays the API accepts in a single rich text value
+export function chunkRichText(richText: RichText[]): RichText[][] {
+  const chunks: RichText[][] = [];
+  for (let i = 0; i < richText.length; i += MAX_RICH_TEXT_ITEMS) {
+    chunks.push(richText.slice(i, i + MAX_RICH_TEXT_ITEMS));
+  }
+  return chunks;
+}
+
+// Rich text value for plain text, cut at the most the API accepts
+export function textToRichText(text: string): RichText[] {
+  return splitText(text)
+    .slice(0, MAX_RICH_TEXT_ITEMS)
+    .map((content) => ({ type: "text", text: { content } }));
+}
@@ -0,0 +1,217 @@
+import axios from "axios";
+import { config } from "../config";
+import { logger } from "./logger";
+
+export interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+export interface RobotsGroup {
+  userAgents: string[]; // Lowercased product tokens, "*" for every crawler
+  rules: RobotsRule[];
+  crawlDelay: number | null; // Seconds
+}
+
+// Rules that apply to our crawler on a site
+export interface RobotsPolicy {
+  rules: RobotsRule[];
+  crawlDelay: number | null; // Seconds
+}
+
+const ALLOW_ALL: RobotsPolicy = { rules: [], crawlDelay: null };
+const DISALLOW_ALL: RobotsPolicy = {
+  rules: [{ allow: false, path: "/" }],
+  crawlDelay: null,
+};
+
+// How long an unreadable robots.txt blocks a site before it's fetched again
+const FAILED_FETCH_TTL = 10 * 60 * 1000;
+
+// Parses robots.txt into its user-agent groups (RFC 9309). Consecutive
+// user-agent lines share the rules that follow them.
+export function parseRobotsTxt(text: string): RobotsGroup[] {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let readingAgents = false;
+
+  for (const rawLine of text.split(/\r?\n|\r/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === "user-agent") {
+      if (!current || !readingAgents) {
+        current = { userAgents: [], rules: [], crawlDelay: null };
+        groups.push(current);
+      }
+      current.userAgents.push(value.toLowerCase());
+      readingAgents = true;
+      continue;
+    }
+
+    readingAgents = false;
+    if (!current) continue;
+
+    if (key === "allow" || key === "disallow") {
+      // An empty disallow allows everything
+      if (value) current.rules.push({ allow: key === "allow", path: value });
+    } else if (key === "crawl-delay") {
+      const delay = parseFloat(value);
+      if (Number.isFinite(delay) && delay >= 0) current.crawlDelay = delay;
+    }
+  }
+
+  return groups;
+}
+
+// Merges the groups naming our user agent, or the "*" groups when none do
+export function selectRobotsPolicy(
+  groups: RobotsGroup[],
+  userAgent: string
+): RobotsPolicy {
+  const agent = userAgent.toLowerCase();
+  const named = groups.filter((group) => group.userAgents.includes(agent));
+  const matching =
+    named.length > 0
+      ? named
+      : groups.filter((group) => group.userAgents.includes("*"));
+
+  const delays = matching
+    .map((group) => group.crawlDelay)
+    .filter((delay): delay is number => delay !== null);
+  return {
+    rules: matching.flatMap((group) => group.rules),
+    crawlDelay: delays.length > 0 ? Math.max(...delays) : null,
+  };
+}
+
+// Matches a rule path against a URL path, "*" matching any characters and
+// a trailing "$" anchoring the end
+const matchesRule = (rulePath: string, path: string): boolean => {
+  const anchored = rulePath.endsWith("$");
+  const pattern = (anchored ? rulePath.slice(0, -1) : rulePath)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${pattern}${anchored ? "$" : ""}`).test(path);
+};
+
+// The longest matching rule wins, allow wins a tie
+export function isPathAllowed(policy: RobotsPolicy, path: string): boolean {
+  let match: RobotsRule | null = null;
+  for (const rule of policy.rules) {
+    if (!matchesRule(rule.path, path)) continue;
+    if (
+      !match ||
+      rule.path.length > match.path.length ||
+      (rule.path.length === match.path.length && rule.allow)
+    ) {
+      match = rule;
+    }
+  }
+  return match?.allow ?? true;
+}
+
+const parseUrl = (url: string): URL | null => {
+  try {
+    return new URL(url);
+  } catch {
+    return null;
+  }
+};
+
+// Fetches and caches robots.txt per site, so every page request can be
+// checked against the site's crawl rules
+export class RobotsChecker {
+  private userAgent: string;
+  private robotsUserAgent: string;
+  private timeout: number;
+  private cacheTtl: number;
+  private policies = new Map<
+    string,
+    { policy: Promise<RobotsPolicy>; expiresAt: number }
+  >();
+
+  constructor() {
+    this.userAgent = config.crawler.userAgent;
+    this.robotsUserAgent = config.crawler.robotsUserAgent;
+    this.timeout = config.crawler.timeout;
+    this.cacheTtl = config.crawler.robotsCacheTtl;
+  }
+
+  // Malformed URLs can't be requested, so they are never allowed
+  public async isAllowed(url: string): Promise<boolean> {
+    const target = parseUrl(url);
+    if (!target) {
+      logger.warn(`Not crawling malformed URL: ${url}`);
+      return false;
+    }
+    const policy = await this.getPolicy(target.origin);
+    return isPathAllowed(policy, target.pathname + target.search);
+  }
+
+  // Crawl-delay for the URL's site in ms, null when it sets none
+  public async getCrawlDelay(url: string): Promise<number | null> {
+    const target = parseUrl(url);
+    if (!target) return null;
+    const { crawlDelay } = await this.getPolicy(target.origin);
+    return crawlDelay === null ? null : crawlDelay * 1000;
+  }
+
+  private getPolicy(origin: string): Promise<RobotsPolicy> {
+    const cached = this.policies.get(origin);
+    if (cached && Date.now() < cached.expiresAt) return cached.policy;
+
+    const entry = {
+      policy: this.fetchPolicy(origin).then(({ policy, failed }) => {
+        // Retry sooner when robots.txt couldn't be read
+        if (failed) entry.expiresAt = Date.now() + FAILED_FETCH_TTL;
+        return policy;
+      }),
+      expiresAt: Date.now() + this.cacheTtl,
+    };
+    this.policies.set(origin, entry);
+    return entry.policy;
+  }
+
+  private async fetchPolicy(
+    origin: string
+  ): Promise<{ policy: RobotsPolicy; failed: boolean }> {
+    const url = `${origin}/robots.txt`;
+    try {
+      const response = await axios.get<string>(url, {
+        headers: { "User-Agent": this.userAgent },
+        timeout: this.timeout,
+        maxRedirects: 5,
+        responseType: "text",
+        validateStatus: () => true,
+      });
+
+      // A missing robots.txt allows everything, a failing one allows
+      // nothing until it can be read again
+      if (response.status >= 500) {
+        logger.warn(
+          `robots.txt at ${url} returned ${response.status}, not crawling ${origin}`
+        );
+        return { policy: DISALLOW_ALL, failed: true };
+      }
+      if (response.status >= 400) return { policy: ALLOW_ALL, failed: false };
+
+      const groups = parseRobotsTxt(String(response.data));
+      return {
+        policy: selectRobotsPolicy(groups, this.robotsUserAgent),
+        failed: false,
+      };
+    } catch (error) {
+      logger.warn(
+        `Failed to fetch robots.txt at ${url}, not crawling ${origin}:`,
+        error
+      );
+      return { policy: DISALLOW_ALL, failed: true };
+    }
+  }
+}
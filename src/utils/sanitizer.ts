@@ -0,0 +1,190 @@
+import parse, { HTMLElement } from "node-html-parser";
+import { BANNED_ATTRIBUTES, BANNED_ELEMENTS, URL_REGEX } from "./constants";
+import { logger } from "./logger";
+import type { IEntrySanitization } from "../models";
+import { Embed, resolveBlockquoteEmbed, resolveFrameEmbed } from "./embeds";
+
+export interface SanitizeOptions {
+  baseUrl: string; // Article URL that relative links are resolved against
+  removeSelectors?: string[]; // Per-source boilerplate (ads, newsletters...)
+}
+
+export interface SanitizedHtml {
+  html: string;
+  report: IEntrySanitization;
+}
+
+// Wrappers whose content is kept when the element itself is banned
+const UNWRAPPED_ELEMENTS = new Set(["html", "body"]);
+
+// Banned attributes that are still needed on some elements
+const PRESERVED_ATTRIBUTES: Record<string, readonly string[]> = {
+  img: ["src", "alt"], // alt text keeps images accessible in stored content
+  pre: ["class"], // language-* hints for code blocks
+  code: ["class"],
+};
+
+const LAZY_SRC_ATTRIBUTES = ["data-src", "data-lazy-src", "data-original"];
+const SRCSET_ATTRIBUTES = ["srcset", "data-srcset", "data-lazy-srcset"];
+
+const count = (counts: Record<string, number>, key: string): void => {
+  counts[key] = (counts[key] ?? 0) + 1;
+};
+
+// Only http(s) URLs with a real host name are kept
+const isAllowedUrl = (url: string): boolean => url.search(URL_REGEX) === 0;
+
+// Resolves a URL against the article URL, returning null when the result
+// isn't a plain http(s) URL (javascript:, data:, mailto: ...)
+const resolveUrl = (value: string, baseUrl: string): string | null => {
+  if (!value.trim()) return null;
+  try {
+    const url = new URL(value.trim(), baseUrl).href;
+    return isAllowedUrl(url) ? url : null;
+  } catch {
+    return null;
+  }
+};
+
+const isAttached = (element: HTMLElement, root: HTMLElement): boolean => {
+  let node: HTMLElement | null = element;
+  while (node && node !== root) {
+    node = node.parentNode;
+  }
+  return node === root;
+};
+
+// Largest candidate of a srcset, by width ("800w") or density ("2x")
+const pickSrcsetCandidate = (srcset: string): string | null => {
+  let best: { url: string; size: number } | null = null;
+  for (const candidate of srcset.split(/,\s+/)) {
+    const [url, descriptor = "1x"] = candidate.trim().split(/\s+/);
+    const size = parseFloat(descriptor) || 0;
+    if (url && (!best || size > best.size)) {
+      best = { url, size };
+    }
+  }
+  return best?.url ?? null;
+};
+
+// Best source for an image: the largest srcset candidate, then the URL of a
+// lazy-loaded image, then src unless it's an inline placeholder
+const pickImageSource = (element: HTMLElement): string | null => {
+  const candidates = [
+    ...SRCSET_ATTRIBUTES.map((name) => {
+      const srcset = element.getAttribute(name);
+      return srcset ? pickSrcsetCandidate(srcset) : null;
+    }),
+    ...LAZY_SRC_ATTRIBUTES.map((name) => element.getAttribute(name)),
+    element.getAttribute("src"),
+  ];
+  return (
+    candidates.find(
+      (candidate): candidate is string =>
+        !!candidate?.trim() && !candidate.startsWith("data:")
+    ) ?? null
+  );
+};
+
+// Standalone link that the Notion converter turns back into an embed block
+const embedLink = (embed: Embed): string =>
+  `<p><a href="${embed.url}">${embed.url}</a></p>`;
+
+// Strips scripts, widgets, boilerplate and presentational attributes from
+// scraped article HTML and makes every link and image URL absolute
+export function sanitizeHtml(
+  html: string,
+  { baseUrl, removeSelectors = [] }: SanitizeOptions
+): SanitizedHtml {
+  const report: IEntrySanitization = {
+    elements: {},
+    attributes: {},
+    selectors: {},
+  };
+  const root = parse(html);
+
+  for (const selector of removeSelectors) {
+    let matches: HTMLElement[];
+    try {
+      matches = root.querySelectorAll(selector);
+    } catch (error) {
+      logger.warn(`Invalid remove selector "${selector}":`, error);
+      continue;
+    }
+    matches.forEach((element) => element.remove());
+    if (matches.length > 0) {
+      report.selectors[selector] = matches.length;
+    }
+  }
+
+  // Keep supported video and social embeds before their markup is banned
+  root
+    .querySelectorAll("iframe, embed, object, blockquote")
+    .forEach((element) => {
+      const embed =
+        element.tagName === "BLOCKQUOTE"
+          ? resolveBlockquoteEmbed(element)
+          : resolveFrameEmbed(element);
+      if (embed) {
+        element.replaceWith(embedLink(embed));
+      }
+    });
+
+  for (const element of root.querySelectorAll("*")) {
+    // Skip descendants of elements removed earlier in the loop
+    if (!isAttached(element, root)) continue;
+
+    const tag = element.tagName.toLowerCase();
+
+    if (BANNED_ELEMENTS.includes(tag)) {
+      count(report.elements, tag);
+      if (UNWRAPPED_ELEMENTS.has(tag)) {
+        element.replaceWith(...element.childNodes);
+      } else {
+        element.remove();
+      }
+      continue;
+    }
+
+    if (tag === "img") {
+      const src = pickImageSource(element);
+      if (src) element.setAttribute("src", src);
+    }
+
+    const preserved = PRESERVED_ATTRIBUTES[tag] ?? [];
+    for (const name of Object.keys(element.attributes)) {
+      const attribute = name.toLowerCase();
+      const banned =
+        BANNED_ATTRIBUTES.includes(attribute) ||
+        attribute.startsWith("on") ||
+        attribute === "style" ||
+        attribute.startsWith("data-");
+      if (banned && !preserved.includes(attribute)) {
+        element.removeAttribute(name);
+        count(report.attributes, attribute);
+      }
+    }
+
+    if (tag === "a" && element.hasAttribute("href")) {
+      const href = resolveUrl(element.getAttribute("href") ?? "", baseUrl);
+      if (href) {
+        element.setAttribute("href", href);
+      } else {
+        element.removeAttribute("href");
+        count(report.attributes, "href");
+      }
+    }
+
+    if (tag === "img") {
+      const src = resolveUrl(element.getAttribute("src") ?? "", baseUrl);
+      if (src) {
+        element.setAttribute("src", src);
+      } else {
+        element.remove();
+        count(report.elements, "img");
+      }
+    }
+  }
+
+  return { html: root.toString().trim(), report };
+}
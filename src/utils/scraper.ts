@@ -1,8 +1,14 @@
 import puppeteer, { Browser, Page } from "puppeteer";
 import axios from "axios";
 import * as cheerio from "cheerio";
-import { config, Source } from "../config";
+import { config, Source, SourceSelectors } from "../config";
 import { logger } from "./logger";
+import { resolveAdapter } from "../adapters";
+import { findLeadImage } from "./leadImage";
+import { extractMetadata } from "./metadata";
+import { extractMainContent } from "./contentExtractor";
+import { RobotsChecker } from "./robots";
+import { PageCache, conditionalHeaders } from "./pageCache";
 import dayjs from "dayjs";
 import customParseFormat from "dayjs/plugin/customParseFormat";
 
@@ -16,6 +22,19 @@ export interface ScrapedArticle {
   summary: string;
   link: string;
   date: Date;
+  dateMissing?: boolean; // No date was found, date is the time of the scrape
+  tags: string[];
+  leadImage?: string; // Used as the Notion page cover
+  contentConfidence?: number; // Set when the body was found automatically
+  // Whether each configured selector matched, for selector health tracking
+  selectorHits?: Partial<Record<keyof SourceSelectors, boolean>>;
+  // The page answered 304 Not Modified and was read from the page cache
+  notModified?: boolean;
+}
+
+interface FetchedPage {
+  html: string;
+  notModified: boolean;
 }
 
 export class WebScraper {
@@ -24,12 +43,30 @@ export class WebScraper {
   private retries: number;
   private retryDelay: number;
   private browser: Browser | null = null;
+  private browserLaunch: Promise<Browser> | null = null;
+  private robots: RobotsChecker;
+  private pageCache: PageCache;
 
   constructor() {
     this.userAgent = config.crawler.userAgent;
     this.timeout = config.crawler.timeout;
     this.retries = config.crawler.retries;
     this.retryDelay = config.crawler.retryDelay;
+    this.robots = new RobotsChecker();
+    this.pageCache = new PageCache();
+  }
+
+  // Whether the site's robots.txt lets us fetch the URL, always true when
+  // RESPECT_ROBOTS_TXT is off
+  public async isAllowedByRobots(url: string): Promise<boolean> {
+    if (!config.crawler.respectRobotsTxt) return true;
+    return this.robots.isAllowed(url);
+  }
+
+  // Crawl-delay in ms the site's robots.txt asks for, null when it sets none
+  public async getCrawlDelay(url: string): Promise<number | null> {
+    if (!config.crawler.respectRobotsTxt) return null;
+    return this.robots.getCrawlDelay(url);
   }
 
   private async delay(ms: number): Promise<void> {
@@ -37,8 +74,9 @@ export class WebScraper {
   }
 
   private async initBrowser(): Promise<void> {
-    if (!this.browser) {
-      this.browser = await puppeteer.launch({
+    // Sources crawled in parallel share a single browser
+    if (!this.browserLaunch) {
+      this.browserLaunch = puppeteer.launch({
         headless: true,
         protocolTimeout: 60000, // Increase protocol timeout to 60 seconds
         browser: "firefox",
@@ -51,25 +89,27 @@ export class WebScraper {
           "--no-zygote",
           "--disable-gpu",
         ],
+      }).catch((error) => {
+        this.browserLaunch = null;
+        throw error;
       });
     }
+    this.browser = await this.browserLaunch;
   }
 
   private async fetchWithRetry(
     url: string,
     attempt: number = 1
   ): Promise<Page> {
+    let page: Page | null = null;
     try {
       logger.debug(`Fetching URL: ${url} (attempt ${attempt})`);
       await this.initBrowser();
 
-      // Reuse a single page for all requests to reduce resource usage
-      const page =
-        (this.browser!.pages && (await this.browser!.pages())[0]) ||
-        (await this.browser!.newPage());
+      // A page per listing, several sources can be crawled at once
+      page = await this.browser!.newPage();
       await page.setUserAgent(this.userAgent);
       await page.setViewport({ width: 1366, height: 768 });
-      await page.goto("about:blank"); // Reset page state
       await page.goto(url, {
         waitUntil: "domcontentloaded", // Faster than networkidle2
         timeout: this.timeout,
@@ -78,6 +118,7 @@ export class WebScraper {
       return page;
     } catch (error) {
       logger.warn(`Failed to fetch ${url} on attempt ${attempt}:`, error);
+      await page?.close().catch(() => undefined);
 
       if (attempt < this.retries) {
         await this.delay(this.retryDelay * attempt);
@@ -93,17 +134,25 @@ export class WebScraper {
     listingPath: string,
     linkSelector: string,
     nextPageSelector?: string,
-    nextPageLoadsInSamePage: boolean = false
+    nextPageLoadsInSamePage: boolean = false,
+    findKnownLinks?: (links: string[]) => Promise<string[]>
   ): Promise<string[]> {
     let page: Page | null = null;
 
     try {
       const fullUrl = `${sourceUrl}${listingPath}`;
+      if (!(await this.isAllowedByRobots(fullUrl))) {
+        logger.warn(
+          `Skipping listing page disallowed by robots.txt: ${fullUrl}`
+        );
+        return [];
+      }
       page = await this.fetchWithRetry(fullUrl);
 
       const links: string[] = [];
       let currentPage = 1;
-      const { maxPages } = config.crawler;
+      let knownPages = 0;
+      const { maxPages, stopAfterKnownPages } = config.crawler;
 
       while (currentPage <= maxPages) {
         // Wait for content to load
@@ -141,6 +190,23 @@ export class WebScraper {
         links.push(...pageLinks);
         logger.info(`Found ${pageLinks.length} links on page ${currentPage}`);
 
+        // Stop paginating once we reach articles that were already crawled
+        if (findKnownLinks && stopAfterKnownPages > 0 && pageLinks.length) {
+          const knownLinks = await findKnownLinks(pageLinks);
+          const uniquePageLinks = new Set(pageLinks);
+          knownPages =
+            new Set(knownLinks).size >= uniquePageLinks.size
+              ? knownPages + 1
+              : 0;
+
+          if (knownPages >= stopAfterKnownPages) {
+            logger.info(
+              `Page ${currentPage} only has known articles, stopping pagination`
+            );
+            break;
+          }
+        }
+
         // Check for next page
         if (nextPageSelector) {
           await page.waitForSelector(nextPageSelector, { timeout: 5000 });
@@ -215,127 +281,242 @@ export class WebScraper {
     try {
       logger.debug(`Scraping article: ${url}`);
 
-      // Fetch HTML with axios - much more lightweight than Puppeteer
-      const response = await axios.get(url, {
-        headers: {
-          'User-Agent': this.userAgent,
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.5',
-          'Accept-Encoding': 'gzip, deflate',
-          'Connection': 'keep-alive',
-        },
-        timeout: this.timeout,
-        maxRedirects: 5,
-      });
-
-      const html = response.data;
-      const $ = cheerio.load(html);
-
-      // Helper to get text from selectors
-      function getTextFromSelectors(selectorString: string): string {
-        if (!selectorString) return "";
-        const selectorList = selectorString.split(", ");
-        for (const selector of selectorList) {
-          try {
-            const text = $(selector).first().text().trim();
-            if (text) return text;
-          } catch {
-            /* ignore */
-          }
-        }
-        return "";
+      if (!(await this.isAllowedByRobots(url))) {
+        logger.warn(`Skipping article disallowed by robots.txt: ${url}`);
+        return null;
       }
 
-      // Helper to get content from selectors (multiple elements with HTML)
-      function getContentFromSelectors(selectorString: string): string {
-        if (!selectorString) return "";
-        const selectorList = selectorString.split(", ");
-        for (const selector of selectorList) {
-          try {
-            const contents: string[] = [];
-            $(selector).each((_, element) => {
-              const html = $(element).html()?.trim();
-              if (html && html.length > 0) {
-                contents.push(html);
-              }
-            });
-            if (contents.length > 0) return contents.join("\n\n");
-          } catch {
-            /* ignore */
-          }
+      const { html, notModified } = await this.fetchArticlePage(url);
+      const articleData = this.extractArticle(html, url, source);
+      articleData.notModified = notModified;
+
+      logger.info(`Successfully scraped article: ${url}`);
+      return articleData;
+    } catch (error) {
+      logger.error(`Failed to scrape article ${url}:`, error);
+      return null;
+    }
+  }
+
+  // Fetch HTML with axios - much more lightweight than Puppeteer. Cached
+  // pages are revalidated, so unchanged ones aren't downloaded again.
+  private async fetchArticlePage(url: string): Promise<FetchedPage> {
+    const { cachePages } = config.crawler;
+    const cached = cachePages ? await this.pageCache.get(url) : null;
+
+    const response = await axios.get(url, {
+      headers: {
+        'User-Agent': this.userAgent,
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+        'Accept-Language': 'en-US,en;q=0.5',
+        'Accept-Encoding': 'gzip, deflate',
+        'Connection': 'keep-alive',
+        ...conditionalHeaders(cached),
+      },
+      timeout: this.timeout,
+      maxRedirects: 5,
+      validateStatus: (status) =>
+        (status >= 200 && status < 300) || (status === 304 && !!cached),
+    });
+
+    if (response.status === 304 && cached) {
+      logger.debug(
+        `Article not modified since ${cached.fetchedAt.toISOString()}: ${url}`
+      );
+      await this.pageCache.markChecked(url);
+      return { html: cached.html, notModified: true };
+    }
+
+    const html = String(response.data);
+    if (cachePages) {
+      await this.pageCache.save(url, html, response.headers);
+    }
+    return { html, notModified: false };
+  }
+
+  // Builds the article from its page HTML, freshly downloaded or read from
+  // the page cache to re-extract it after a selector change
+  public extractArticle(
+    html: string,
+    url: string,
+    source: Source
+  ): ScrapedArticle {
+    const $ = cheerio.load(html);
+
+    // Helper to get text from selectors
+    function getTextFromSelectors(selectorString: string): string {
+      if (!selectorString) return "";
+      const selectorList = selectorString.split(", ");
+      for (const selector of selectorList) {
+        try {
+          const text = $(selector).first().text().trim();
+          if (text) return text;
+        } catch {
+          /* ignore */
         }
-        return "";
       }
+      return "";
+    }
 
-      // Get entryId
-      let entryId = "";
-      if (source.selectors.entryId) {
-        const selectorList = source.selectors.entryId.split(", ");
-        for (const selector of selectorList) {
-          try {
-            const className = $(selector).first().attr("class") || "";
-            const classArray = className.split(" ");
-            for (const classItem of classArray) {
-              if (classItem.startsWith("post-")) {
-                if (source.name === "Atomix") {
-                  entryId = `${source.url}/?p=${classItem.split("-")[1] || ""}`;
-                } else {
-                  entryId = classItem.split("-")[1] || "";
-                }
-                if (entryId) break;
-              }
+    // Helper to get content from selectors (multiple elements with HTML)
+    function getContentFromSelectors(selectorString: string): string {
+      if (!selectorString) return "";
+      const selectorList = selectorString.split(", ");
+      for (const selector of selectorList) {
+        try {
+          const contents: string[] = [];
+          $(selector).each((_, element) => {
+            const html = $(element).html()?.trim();
+            if (html && html.length > 0) {
+              contents.push(html);
             }
-            if (entryId) break;
-          } catch {
-            /* ignore */
-          }
-        }
-      }
-      if (!entryId) {
-        const urlParts = url.split("/");
-        const lastPart = urlParts[urlParts.length - 1];
-        if (lastPart) {
-          entryId = lastPart.replace(/[^a-zA-Z0-9]/g, "");
+          });
+          if (contents.length > 0) return contents.join("\n\n");
+        } catch {
+          /* ignore */
         }
       }
+      return "";
+    }
 
-      // Parse date
-      let dateText = getTextFromSelectors(source.selectors.date);
-      let parsedDate: Date;
-      if (source.dateFormat && dateText) {
-        if (source.name === "Atomix") {
-          dateText = dateText.replace(".", "").trim();
+    // Helper to get the text of every element matched by selectors
+    function getTextsFromSelectors(selectorString: string): string[] {
+      if (!selectorString) return [];
+      const texts = new Set<string>();
+      for (const selector of selectorString.split(", ")) {
+        try {
+          $(selector).each((_, element) => {
+            const text = $(element).text().trim();
+            if (text) texts.add(text);
+          });
+        } catch {
+          /* ignore */
         }
-        const dayjsDate = dayjs(dateText, source.dateFormat);
-        parsedDate = dayjsDate.isValid()
-          ? dayjsDate.toDate()
-          : dayjs().toDate();
-      } else {
-        parsedDate = new Date(dateText);
       }
+      return [...texts];
+    }
 
-      const articleData: ScrapedArticle = {
-        entryId,
-        title: getTextFromSelectors(source.selectors.title),
-        author: getTextFromSelectors(source.selectors.author),
-        content: getContentFromSelectors(source.selectors.content),
-        summary: getTextFromSelectors(source.selectors.summary ?? ""),
-        link: url,
-        date: parsedDate,
-      };
+    const adapter = resolveAdapter(source.adapter);
+
+    // Get entryId
+    const entryId = adapter.deriveEntryId({ $, url, source });
+
+    // Structured metadata fills in what the selectors don't find, so
+    // broken selectors don't silently leave fields empty
+    const metadata = extractMetadata($);
+    const fromMetadata: string[] = [];
+    const selectorHits: NonNullable<ScrapedArticle["selectorHits"]> = {};
+    function trackSelector(
+      field: keyof SourceSelectors,
+      matched: boolean
+    ): void {
+      if (source.selectors[field]) selectorHits[field] = matched;
+    }
+    function withFallback(
+      field: keyof SourceSelectors,
+      value: string,
+      fallback: string | undefined
+    ): string {
+      trackSelector(field, !!value);
+      if (value || !fallback) return value;
+      fromMetadata.push(field);
+      return fallback;
+    }
 
-      logger.info(`Successfully scraped article: ${url}`);
-      return articleData;
-    } catch (error) {
-      logger.error(`Failed to scrape article ${url}:`, error);
-      return null;
+    // Parse date
+    const dateText = adapter.normalizeDate(
+      getTextFromSelectors(source.selectors.date),
+      source
+    );
+    let parsedDate: Date | null = null;
+    if (source.dateFormat && dateText) {
+      const dayjsDate = dayjs(dateText, source.dateFormat);
+      parsedDate = dayjsDate.isValid() ? dayjsDate.toDate() : null;
+    } else if (dateText) {
+      const date = new Date(dateText);
+      parsedDate = isNaN(date.getTime()) ? null : date;
+    }
+    trackSelector("date", parsedDate !== null);
+    if (!parsedDate) {
+      parsedDate = metadata.published ?? metadata.modified ?? null;
+      if (parsedDate) fromMetadata.push("date");
+    }
+    const dateMissing = !parsedDate;
+    if (!parsedDate) {
+      logger.warn(`No publication date found, using current time: ${url}`);
+      parsedDate = new Date();
+    }
+
+    let content = getContentFromSelectors(source.selectors.content);
+    trackSelector("content", !!content);
+    let contentConfidence: number | undefined;
+    if (!content && source.contentExtraction === "auto") {
+      const extracted = extractMainContent(html);
+      if (extracted) {
+        content = extracted.html;
+        contentConfidence = extracted.confidence;
+        logger.debug(
+          `Extracted content automatically (confidence ${contentConfidence}): ${url}`
+        );
+      }
+    }
+    content = adapter.postProcessContent(content, source);
+
+    let tags = getTextsFromSelectors(source.selectors.tags ?? "");
+    trackSelector("tags", tags.length > 0);
+    if (tags.length === 0) {
+      tags = [
+        ...new Set(
+          [metadata.section, ...metadata.tags].filter(
+            (tag): tag is string => !!tag
+          )
+        ),
+      ];
+      if (tags.length > 0) fromMetadata.push("tags");
     }
+
+    const articleData: ScrapedArticle = {
+      entryId,
+      title: withFallback(
+        "title",
+        getTextFromSelectors(source.selectors.title),
+        metadata.title
+      ),
+      author: withFallback(
+        "author",
+        getTextFromSelectors(source.selectors.author),
+        metadata.author
+      ),
+      content,
+      summary: withFallback(
+        "summary",
+        getTextFromSelectors(source.selectors.summary ?? ""),
+        metadata.description
+      ),
+      link: url,
+      date: parsedDate,
+      dateMissing: dateMissing || undefined,
+      tags,
+      leadImage: findLeadImage(metadata, content, url) ?? undefined,
+      contentConfidence,
+      selectorHits,
+    };
+
+    if (fromMetadata.length > 0) {
+      logger.debug(
+        `Filled ${fromMetadata.join(", ")} from page metadata: ${url}`
+      );
+    }
+
+    return articleData;
   }
 
   public async close(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
+    if (this.browserLaunch) {
+      const browser = await this.browserLaunch;
+      this.browserLaunch = null;
       this.browser = null;
+      await browser.close();
     }
   }
 }
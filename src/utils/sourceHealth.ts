@@ -0,0 +1,181 @@
+import axios from "axios";
+import { config, Source, SourceSelectors } from "../config";
+import { ISourceHealthRun, SourceHealthModel } from "../models";
+import { logger } from "./logger";
+import type { ScrapedArticle } from "./scraper";
+
+export interface SourceHealthOptions {
+  minHitRate: number;
+  sampleSize: number;
+}
+
+export interface SelectorHealth {
+  hitRate: number; // Share of the sampled articles the selector matched
+  articles: number; // Articles sampled, across the most recent runs
+}
+
+export interface SourceHealthStatus {
+  degraded: boolean;
+  reasons: string[];
+  selectors: Record<string, SelectorHealth>;
+}
+
+// Article selectors whose matches are tracked
+const TRACKED_SELECTORS: (keyof SourceSelectors)[] = [
+  "title",
+  "author",
+  "content",
+  "date",
+  "summary",
+  "tags",
+];
+
+const trackedSelectors = (source: Source): string[] =>
+  TRACKED_SELECTORS.filter((field) => !!source.selectors[field]);
+
+// Feeds and sitemaps can have nothing new between runs, a listing page
+// without links means the articleLinks selector broke
+const isListingSource = (source: Source): boolean =>
+  !source.feedUrl && !source.sitemapUrl;
+
+// Empty run for a source, counting the selectors it configures
+export function createHealthRun(
+  source: Source,
+  links: number
+): ISourceHealthRun {
+  return {
+    crawledAt: new Date(),
+    links,
+    articles: 0,
+    hits: Object.fromEntries(
+      trackedSelectors(source).map((field) => [field, 0])
+    ),
+  };
+}
+
+export function recordArticleHits(
+  run: ISourceHealthRun,
+  article: ScrapedArticle
+): void {
+  // Feed items that weren't scraped have no selector results
+  if (!article.selectorHits) return;
+
+  run.articles++;
+  for (const field of Object.keys(run.hits)) {
+    if (article.selectorHits[field as keyof SourceSelectors]) {
+      run.hits[field]++;
+    }
+  }
+}
+
+// Hit rate of each selector over its most recent sample of articles (runs
+// are oldest first). A source is degraded when a selector falls below the
+// minimum hit rate or a listing page returned no links in the latest run.
+export function evaluateSourceHealth(
+  source: Source,
+  runs: ISourceHealthRun[],
+  options: SourceHealthOptions = config.sourceHealth
+): SourceHealthStatus {
+  const reasons: string[] = [];
+  const selectors: Record<string, SelectorHealth> = {};
+
+  const latest = runs[runs.length - 1];
+  if (latest && latest.links === 0 && isListingSource(source)) {
+    reasons.push(
+      `no article links found with selectors.articleLinks "${source.selectors.articleLinks}"`
+    );
+  }
+
+  for (const field of trackedSelectors(source)) {
+    let articles = 0;
+    let hits = 0;
+    for (const run of [...runs].reverse()) {
+      if (articles >= options.sampleSize) break;
+      // Runs from before the selector was configured don't count
+      const count = run.hits[field];
+      if (count === undefined) continue;
+      articles += run.articles;
+      hits += count;
+    }
+    if (articles === 0) continue;
+
+    const hitRate = hits / articles;
+    selectors[field] = { hitRate, articles };
+    if (articles >= options.sampleSize && hitRate < options.minHitRate) {
+      reasons.push(
+        `selectors.${field} matched ${Math.round(
+          hitRate * 100
+        )}% of the last ${articles} articles`
+      );
+    }
+  }
+
+  return { degraded: reasons.length > 0, reasons, selectors };
+}
+
+// Stores crawl runs per source and flags sources whose selectors stopped
+// matching, alerting through the logs and an optional webhook
+export class SourceHealthMonitor {
+  public async recordRun(
+    source: Source,
+    run: ISourceHealthRun
+  ): Promise<SourceHealthStatus | null> {
+    try {
+      const health = await SourceHealthModel.findOneAndUpdate(
+        { source: source.name },
+        {
+          $push: {
+            runs: { $each: [run], $slice: -config.sourceHealth.runsKept },
+          },
+        },
+        { upsert: true, new: true }
+      );
+
+      const status = evaluateSourceHealth(source, health.runs);
+      const reasons = status.reasons.join("; ");
+
+      if (status.degraded && !health.degraded) {
+        health.degradedSince = new Date();
+        logger.error(`Source ${source.name} is degraded: ${reasons}`);
+        await this.sendAlert(source, "degraded", status.reasons);
+      } else if (status.degraded) {
+        logger.warn(`Source ${source.name} is still degraded: ${reasons}`);
+      } else if (health.degraded) {
+        health.degradedSince = undefined;
+        logger.info(`Source ${source.name} recovered`);
+        await this.sendAlert(source, "recovered", []);
+      }
+
+      health.degraded = status.degraded;
+      health.degradedReasons = status.reasons;
+      await health.save();
+      return status;
+    } catch (error) {
+      logger.error(`Failed to record health for source ${source.name}:`, error);
+      return null;
+    }
+  }
+
+  private async sendAlert(
+    source: Source,
+    status: "degraded" | "recovered",
+    reasons: string[]
+  ): Promise<void> {
+    const { alertWebhookUrl } = config.sourceHealth;
+    if (!alertWebhookUrl) return;
+
+    const text =
+      status === "degraded"
+        ? `Source ${source.name} is degraded: ${reasons.join("; ")}`
+        : `Source ${source.name} recovered`;
+    try {
+      await axios.post(
+        alertWebhookUrl,
+        { source: source.name, status, reasons, text },
+        { timeout: config.crawler.timeout }
+      );
+    } catch (error) {
+      logger.warn(`Failed to send health alert for ${source.name}:`, error);
+    }
+  }
+}
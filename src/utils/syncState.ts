@@ -0,0 +1,120 @@
+import { APIErrorCode, isNotionClientError } from "@notionhq/client";
+import { config } from "../config";
+import type { EntrySyncStatus, IEntry, SyncErrorKind } from "../models";
+
+export interface SyncRetryOptions {
+  maxAttempts: number;
+  retryDelay: number; // ms before the first retry
+  maxRetryDelay: number; // ms
+}
+
+// Requests Notion rejects for their content, retrying them can't help
+const VALIDATION_ERROR_CODES: string[] = [
+  APIErrorCode.ValidationError,
+  APIErrorCode.InvalidJSON,
+  APIErrorCode.InvalidRequest,
+  APIErrorCode.InvalidRequestURL,
+  APIErrorCode.ObjectNotFound,
+];
+
+// Error messages kept on an entry
+const MAX_ENTRY_ERRORS = 10;
+
+// Errors after which the sync used to give up on an entry
+const LEGACY_MAX_ERRORS = 5;
+
+// Fields of entries saved before sync statuses existed
+export interface LegacyEntry {
+  notionPageId?: string | null;
+  created?: boolean;
+  entryErrors?: string[];
+}
+
+export function classifySyncError(error: unknown): SyncErrorKind {
+  if (isNotionClientError(error)) {
+    if (error.code === APIErrorCode.RateLimited) return "rate_limit";
+    if (VALIDATION_ERROR_CODES.includes(error.code)) return "validation";
+  }
+  // Timeouts, server errors and network failures
+  return "transient";
+}
+
+// Exponential backoff: the retry delay, then twice as long after each
+// further failed attempt, up to the max
+export function getRetryDelay(
+  attempts: number,
+  options: SyncRetryOptions = config.notionSync
+): number {
+  const delay = options.retryDelay * 2 ** Math.max(0, attempts - 1);
+  return Math.min(delay, options.maxRetryDelay);
+}
+
+export function markSynced(entry: IEntry): void {
+  entry.syncStatus = "synced";
+  entry.syncAttempts = 0;
+  entry.nextAttemptAt = undefined;
+  entry.syncErrorKind = undefined;
+  entry.entryErrors = [];
+}
+
+// Records a failed attempt, moving the entry to retrying or failed, and
+// returns the kind of error
+export function markSyncFailure(
+  entry: IEntry,
+  error: unknown,
+  options: SyncRetryOptions = config.notionSync,
+  now: Date = new Date()
+): SyncErrorKind {
+  const kind = classifySyncError(error);
+  const message = error instanceof Error ? error.message : String(error);
+
+  entry.entryErrors = [
+    ...(entry.entryErrors ?? []),
+    `${now.toISOString()} ${kind}: ${message}`,
+  ].slice(-MAX_ENTRY_ERRORS);
+  entry.syncErrorKind = kind;
+
+  // Being rate limited says nothing about the entry itself
+  const attempts =
+    kind === "rate_limit"
+      ? entry.syncAttempts ?? 0
+      : (entry.syncAttempts ?? 0) + 1;
+  entry.syncAttempts = attempts;
+
+  if (kind === "validation" || attempts >= options.maxAttempts) {
+    entry.syncStatus = "failed";
+    entry.nextAttemptAt = undefined;
+  } else {
+    entry.syncStatus = "retrying";
+    entry.nextAttemptAt = new Date(
+      now.getTime() + getRetryDelay(Math.max(1, attempts), options)
+    );
+  }
+  return kind;
+}
+
+// Puts a failed or skipped entry back in the queue with a clean slate
+export function requeueEntry(entry: IEntry): void {
+  entry.syncStatus = "pending";
+  entry.syncAttempts = 0;
+  entry.nextAttemptAt = undefined;
+  entry.syncErrorKind = undefined;
+  entry.entryErrors = [];
+}
+
+// Matches entries without a retry scheduled or whose retry is due
+export const dueForAttempt = (now: Date = new Date()) => ({
+  $or: [{ nextAttemptAt: null }, { nextAttemptAt: { $lte: now } }],
+});
+
+// Sync status of an entry from before sync statuses existed. The sync set
+// `created` both when it created the page, clearing the errors, and when it
+// gave up after 5 errors. Pages created before page IDs were stored are
+// linked back by the reconcile job.
+export function legacySyncStatus(entry: LegacyEntry): EntrySyncStatus {
+  if (entry.notionPageId) return "synced";
+  if (!entry.created) return "pending";
+  return (entry.entryErrors?.length ?? 0) >= LEGACY_MAX_ERRORS
+    ? "failed"
+    : "synced";
+}